@@ -2,9 +2,81 @@ import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 
 import * as schema from "./schema";
-import { env } from "../env";
+import { coreConfig } from "../shared/config";
+import { registerShutdownHook, ShutdownOrder } from "../shared/lib/lifecycle";
+import { tracer } from "../shared/lib/tracing";
 
-const client = postgres(env.DATABASE_URL);
-export const db = drizzle(client, { schema });
+export interface PoolStats {
+	max: number;
+	open: number;
+	queries: number;
+}
+
+// postgres.js exposes no pool introspection, so track connections through
+// its debug and close hooks.
+const openConnections = new Set<number>();
+let queryCount = 0;
+
+export const client = postgres(coreConfig.databaseUrl, {
+	debug: (connection) => {
+		openConnections.add(connection);
+		queryCount += 1;
+	},
+	onclose: (connection) => {
+		openConnections.delete(connection);
+	},
+});
+
+const MAX_STATEMENT_LENGTH = 2048;
+
+// Drizzle routes every query through `unsafe`, so wrapping it yields one
+// span per statement. Queries inside `begin` transactions use the reserved
+// connection and are not traced individually.
+const tracedClient = new Proxy(client, {
+	get(target, property, receiver) {
+		if (property !== "unsafe") {
+			return Reflect.get(target, property, receiver);
+		}
+
+		return (...args: Parameters<typeof target.unsafe>) => {
+			const [statement] = args;
+			const span = tracer.startSpan("db.query", {
+				kind: "client",
+				attributes: {
+					"db.system": "postgresql",
+					"db.statement": statement.slice(0, MAX_STATEMENT_LENGTH),
+				},
+			});
+			const pending = target.unsafe(...args);
+
+			pending.then(
+				() => span.end(),
+				(error: unknown) => {
+					span.recordException(error);
+					span.end();
+				},
+			);
+
+			return pending;
+		};
+	},
+});
+
+export const db = drizzle(tracedClient, { schema });
+
+registerShutdownHook({
+	name: "database",
+	order: ShutdownOrder.CONNECTIONS,
+	// Lets running queries finish, then closes every pooled connection
+	run: () => client.end({ timeout: 5 }),
+});
+
+export function getPoolStats(): PoolStats {
+	return {
+		max: client.options.max,
+		open: openConnections.size,
+		queries: queryCount,
+	};
+}
 
 export type DatabaseType = typeof db;
@@ -0,0 +1,9 @@
+import { integer, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+// Fixed-window counters of the Postgres rate limit store
+export const rateLimit = pgTable("rate_limit", {
+	key: text("key").primaryKey(),
+	count: integer("count").notNull(),
+	// With a time zone, so it compares right with now() in any session
+	resetAt: timestamp("reset_at", { withTimezone: true }).notNull(),
+});
@@ -1,27 +1,88 @@
 import { Elysia } from "elysia";
 
 import { routers } from "./routers";
-import { StatusCodes } from "./shared/const";
-import { loggerIntegration, openapiIntegration } from "./shared/integrations";
-import { errorInterceptor } from "./shared/interceptors";
-import { auth } from "./shared/lib";
-import { corsMiddleware } from "./shared/middleware";
+import { MethodNotAllowedError } from "./shared/errors";
+import {
+	errorReportingIntegration,
+	loggerIntegration,
+	metricsIntegration,
+	openapiIntegration,
+	tracingIntegration,
+} from "./shared/integrations";
+import {
+	errorInterceptor,
+	resultInterceptor,
+	type WithResultResponses,
+} from "./shared/interceptors";
+import {
+	auth,
+	credentialSchemas,
+	logSecurityReport,
+	resignAuthHeaders,
+} from "./shared/lib";
+import {
+	corsMiddleware,
+	rateLimitMiddleware,
+	requestContextMiddleware,
+} from "./shared/middleware";
+import { R } from "./shared/utils";
+
+const AUTH_METHODS = ["GET", "POST"];
+const AUTH_PREFIX = "/api/auth";
+
+async function handleAuth(request: Request) {
+	const schema =
+		credentialSchemas[new URL(request.url).pathname.slice(AUTH_PREFIX.length)];
+
+	if (schema) {
+		// A clone, better-auth reads the body again
+		const body = await request
+			.clone()
+			.json()
+			.catch(() => undefined);
+		const parsed = R.fromZod(schema, body);
+
+		if (parsed.isErr()) {
+			throw parsed.error;
+		}
+	}
+
+	const headers = await resignAuthHeaders(request.headers);
+
+	return auth.handler(
+		headers === request.headers ? request : new Request(request, { headers }),
+	);
+}
 
 const app = new Elysia()
+	.use(requestContextMiddleware)
+	.use(tracingIntegration)
 	.use(loggerIntegration)
+	.use(errorReportingIntegration)
+	.use(metricsIntegration)
 	.use(openapiIntegration)
 	.use(errorInterceptor)
+	.use(resultInterceptor)
 	.use(corsMiddleware)
-	.all("/api/auth/*", ({ request, set }) => {
-		if (["POST", "GET"].includes(request.method)) {
-			return auth.handler(request);
+	.use(rateLimitMiddleware)
+	// Credential endpoints are limited per IP against brute force and
+	// account spam; everything else under /api/auth passes straight through
+	.post(`${AUTH_PREFIX}/sign-in/*`, ({ request }) => handleAuth(request), {
+		rateLimit: { window: "1m", max: 10, name: "auth:sign-in" },
+	})
+	.post(`${AUTH_PREFIX}/sign-up/*`, ({ request }) => handleAuth(request), {
+		rateLimit: { window: "1h", max: 5, name: "auth:sign-up" },
+	})
+	.all(`${AUTH_PREFIX}/*`, ({ request }) => {
+		if (!AUTH_METHODS.includes(request.method)) {
+			throw new MethodNotAllowedError(AUTH_METHODS);
 		}
 
-		set.status = StatusCodes.METHOD_NOT_ALLOWED;
-
-		return { error: "Method not allowed" };
+		return handleAuth(request);
 	})
 	.use(routers);
 
+logSecurityReport();
+
 export default app;
-export type App = typeof app;
+export type App = WithResultResponses<typeof app>;
@@ -0,0 +1,58 @@
+import { Elysia, t } from "elysia";
+
+import { getConfigSnapshot } from "../../shared/config";
+import {
+	getLogLevels,
+	LOG_LEVELS,
+	resetLogLevels,
+	updateLogLevels,
+} from "../../shared/lib";
+import { authMiddleware } from "../../shared/middleware";
+import { Response } from "../../shared/utils";
+
+const MAX_OVERRIDE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const logLevel = t.UnionEnum(LOG_LEVELS);
+
+const logLevelUpdate = t.Object({
+	level: t.Optional(logLevel),
+	modules: t.Optional(t.Record(t.String(), t.Nullable(logLevel))),
+	routes: t.Optional(
+		t.Record(t.String({ pattern: "^/" }), t.Nullable(logLevel)),
+	),
+	accessLogSampleRate: t.Optional(t.Number({ minimum: 0, maximum: 1 })),
+	ttlMs: t.Optional(t.Integer({ minimum: 1000, maximum: MAX_OVERRIDE_TTL_MS })),
+});
+
+const adminRouter = new Elysia({ prefix: "/admin" })
+	.use(authMiddleware)
+	.get("/config", () => Response.ok(getConfigSnapshot()), {
+		auth: { role: "admin" },
+	})
+	.get("/logging", () => Response.ok(getLogLevels()), {
+		auth: { role: "admin" },
+	})
+	.patch(
+		"/logging",
+		({ body, log }) => {
+			const state = updateLogLevels(body);
+
+			log.warn("Log levels changed at runtime", { update: body });
+
+			return Response.ok(state);
+		},
+		{ auth: { role: "admin" }, body: logLevelUpdate },
+	)
+	.delete(
+		"/logging",
+		({ log }) => {
+			const state = resetLogLevels();
+
+			log.warn("Log levels reset to startup settings");
+
+			return Response.ok(state);
+		},
+		{ auth: { role: "admin" } },
+	);
+
+export default adminRouter;
@@ -0,0 +1,2 @@
+// Admin router exports
+export { default as adminRouter } from "./admin.router";
@@ -0,0 +1,49 @@
+import { Elysia, t } from "elysia";
+
+import { StatusCodes } from "../../shared/const";
+import { errorReporter, getRequestLogger } from "../../shared/lib";
+import { rateLimitMiddleware } from "../../shared/middleware";
+import { Response } from "../../shared/utils";
+
+const clientError = t.Object({
+	name: t.Optional(t.String({ maxLength: 200 })),
+	message: t.String({ maxLength: 2000 }),
+	stack: t.Optional(t.String({ maxLength: 20_000 })),
+	// Next.js digest linking a server component error to the server logs
+	digest: t.Optional(t.String({ maxLength: 200 })),
+	url: t.Optional(t.String({ maxLength: 2000 })),
+});
+
+// Client crashes enter the same reporting pipeline as server errors
+const clientErrorsRouter = new Elysia({ prefix: "/client-errors" })
+	.use(rateLimitMiddleware)
+	.post(
+		"/",
+		async ({ body, request, set }) => {
+			const { digest, url, ...error } = body;
+			const report = await errorReporter.capture(
+				{ name: error.name ?? "Error", ...error },
+				{
+					source: "client",
+					url,
+					userAgent: request.headers.get("user-agent") ?? undefined,
+					tags: digest ? { digest } : undefined,
+				},
+			);
+
+			getRequestLogger(request).warn("Client error reported", {
+				eventId: report?.eventId,
+				message: error.message,
+			});
+
+			set.status = StatusCodes.ACCEPTED;
+
+			return Response.ok({ eventId: report?.eventId ?? null });
+		},
+		{
+			body: clientError,
+			rateLimit: { window: "1m", max: 10 },
+		},
+	);
+
+export default clientErrorsRouter;
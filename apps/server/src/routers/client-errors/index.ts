@@ -0,0 +1,2 @@
+// Client errors router exports
+export { default as clientErrorsRouter } from "./client-errors.router";
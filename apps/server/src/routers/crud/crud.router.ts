@@ -0,0 +1,502 @@
+import { count, eq, getTableColumns } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { Elysia, type TSchema, t } from "elysia";
+import type { z } from "zod";
+
+import { db } from "../../db";
+import { StatusCodes } from "../../shared/const";
+import {
+	type FieldError,
+	NotFoundError,
+	ValidationError,
+} from "../../shared/errors";
+import {
+	type auth,
+	defineListQuery,
+	getRequestLogger,
+	type ListField,
+	type Logger,
+} from "../../shared/lib";
+import { type AuthOptions, authMiddleware } from "../../shared/middleware";
+import { O, Response } from "../../shared/utils";
+
+/**
+ * Generates the list/get/create/update/delete routes of an admin-style
+ * resource from its Drizzle table and zod schemas, so a new resource is a
+ * config object instead of a router of boilerplate.
+ */
+
+export type CrudOperation = "list" | "get" | "create" | "update" | "delete";
+
+type SessionUser = typeof auth.$Infer.Session.user;
+
+type Row<Table extends PgTable> = Table["$inferSelect"];
+type Insert<Table extends PgTable> = Table["$inferInsert"];
+type ColumnName<Table extends PgTable> = keyof Row<Table> & string;
+
+// Who is asking, passed to every hook
+export interface CrudContext {
+	// Signed-in user, undefined on public operations
+	user: SessionUser | undefined;
+	log: Logger;
+}
+
+export interface CrudHooks<Table extends PgTable> {
+	// Returns the values to insert, e.g. with an owner set from the user
+	beforeCreate?: (
+		input: Partial<Insert<Table>>,
+		context: CrudContext,
+	) => Partial<Insert<Table>> | Promise<Partial<Insert<Table>>>;
+	afterCreate?: (row: Row<Table>, context: CrudContext) => unknown;
+	// Returns the values to set
+	beforeUpdate?: (
+		id: string,
+		input: Partial<Insert<Table>>,
+		context: CrudContext,
+	) => Partial<Insert<Table>> | Promise<Partial<Insert<Table>>>;
+	afterUpdate?: (row: Row<Table>, context: CrudContext) => unknown;
+	// Throw to refuse, e.g. a ConflictError while the row is in use
+	beforeDelete?: (id: string, context: CrudContext) => unknown;
+	afterDelete?: (row: Row<Table>, context: CrudContext) => unknown;
+}
+
+export interface CrudRouterOptions<
+	Table extends PgTable,
+	Hidden extends ColumnName<Table> = never,
+> {
+	table: Table;
+	prefix: `/${string}`;
+	// Singular name for docs and errors, e.g. "Project"
+	name: string;
+	schemas: {
+		create: z.ZodObject;
+		// The create schema with every field optional by default
+		update?: z.ZodObject;
+	};
+	// Primary key column, the table's `id` by default
+	id?: PgColumn;
+	// Schema of the :id param, a UUID by default, e.g. a TypeID's `schema`
+	idSchema?: TSchema & { static: string };
+	// Required for every operation, omitted for public resources
+	auth?: true | AuthOptions;
+	// Per operation overrides of auth, false leaves the route out
+	permissions?: Partial<Record<CrudOperation, true | AuthOptions | false>>;
+	// Filterable and sortable fields of the list route, never read-masked
+	// ones, whose values filters would reveal a prefix at a time
+	list?: {
+		fields?: Partial<
+			Record<Exclude<ColumnName<Table>, Hidden>, Omit<ListField, "column">>
+		>;
+		defaultSort?: string;
+		maxLimit?: number;
+	};
+	masks?: {
+		// Columns never sent to clients, e.g. secrets
+		read?: readonly Hidden[];
+		// Columns clients may not set, set them in a before hook instead
+		write?: readonly ColumnName<Table>[];
+	};
+	hooks?: CrudHooks<Table>;
+}
+
+// Any UUID Postgres accepts, others would fail the query as a 500
+const UUID_PATTERN =
+	"^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$";
+
+const problemSchema = t.Object(
+	{
+		type: t.String(),
+		title: t.String(),
+		status: t.Number(),
+		detail: t.Optional(t.String()),
+		instance: t.Optional(t.String()),
+		code: t.String(),
+		requestId: t.Optional(t.String()),
+	},
+	// Extension members, e.g. the errors of a validation problem
+	{ additionalProperties: true },
+);
+
+const paginationSchema = t.Object({
+	page: t.Number(),
+	limit: t.Number(),
+	total: t.Number(),
+	totalPages: t.Number(),
+});
+
+// A column's values as sent to clients, unknown where JSON has no match
+function valueSchema(column: PgColumn): TSchema {
+	switch (column.dataType) {
+		case "string":
+			return t.String();
+		case "number":
+			return t.Number();
+		case "boolean":
+			return t.Boolean();
+		case "date":
+			return t.Date();
+		default:
+			return t.Unknown();
+	}
+}
+
+function columnSchema(column: PgColumn): TSchema {
+	return column.notNull ? valueSchema(column) : t.Nullable(valueSchema(column));
+}
+
+const listQuerySchema = t.Object(
+	{
+		sort: t.Optional(t.String({ description: "e.g. -createdAt,name" })),
+		page: t.Optional(t.String({ description: "Page number, from 1" })),
+		limit: t.Optional(t.String({ description: "Page size" })),
+	},
+	// For the docs, the list query validates these and filter[field][op]
+	{ additionalProperties: true },
+);
+
+/**
+ * Routes of a resource under `prefix`, e.g.
+ *
+ * ```ts
+ * createCrudRouter({
+ *   table: project,
+ *   prefix: "/admin/projects",
+ *   name: "Project",
+ *   schemas: { create: createProjectSchema },
+ *   idSchema: projectId.schema,
+ *   auth: { role: "admin" },
+ *   permissions: { delete: false },
+ *   list: { fields: { name: { filter: ["contains"], sort: true } } },
+ *   masks: { read: ["apiKey"], write: ["ownerId"] },
+ *   hooks: { beforeCreate: (input, { user }) => ({ ...input, ownerId: user?.id }) },
+ * })
+ * ```
+ *
+ * Lists are `Response.paginate`d, a missing row is a NotFoundError and
+ * database errors are translated by the error interceptor.
+ */
+export function createCrudRouter<
+	Table extends PgTable,
+	Hidden extends ColumnName<Table> = never,
+>({
+	table,
+	prefix,
+	name,
+	schemas,
+	id,
+	idSchema = t.String({ pattern: UUID_PATTERN, error: `Invalid ${name} ID` }),
+	auth: defaultAuth,
+	permissions = {},
+	list = {},
+	masks = {},
+	hooks = {},
+}: CrudRouterOptions<Table, Hidden>) {
+	const columns: Record<string, PgColumn> = getTableColumns(table);
+	const idColumn = id ?? columns.id;
+
+	if (!idColumn) {
+		throw new Error(`${name} has no id column, pass the id option`);
+	}
+
+	const tags = [name];
+	const params = t.Object({ id: idSchema });
+	const updateSchema = schemas.update ?? schemas.create.partial();
+	const hidden = new Set<string>(masks.read);
+	const readOnly = new Set<string>(masks.write);
+	// The type already excludes them, unless Hidden was widened
+	for (const field of Object.keys(list.fields ?? {})) {
+		if (hidden.has(field)) {
+			throw new Error(
+				`${name} lists ${field}, which is masked on read and cannot be filtered or sorted`,
+			);
+		}
+	}
+
+	const rowSchema = t.Unsafe<Omit<Row<Table>, Hidden>>(
+		t.Object(
+			Object.fromEntries(
+				Object.entries(columns)
+					.filter(([column]) => !hidden.has(column))
+					.map(([column, definition]) => [column, columnSchema(definition)]),
+			),
+		),
+	);
+	// Optional like ApiResponse's own data
+	const itemSchema = t.Object({
+		success: t.Boolean(),
+		data: t.Optional(rowSchema),
+		message: t.Optional(t.String()),
+	});
+	const listSchema = t.Object({
+		success: t.Boolean(),
+		data: t.Optional(t.Array(rowSchema)),
+		pagination: paginationSchema,
+	});
+
+	const listQuery = defineListQuery({
+		fields: Object.fromEntries(
+			Object.entries(list.fields ?? {}).flatMap(([field, options]) => {
+				const column = columns[field];
+
+				return column ? [[field, { ...(options as object), column }]] : [];
+			}),
+		),
+		defaultSort: list.defaultSort,
+		tiebreaker: idColumn,
+		maxLimit: list.maxLimit,
+	});
+
+	// The route's auth macro option, undefined on public operations
+	const authFor = (operation: CrudOperation) =>
+		permissions[operation] ?? defaultAuth;
+	const enabled = (operation: CrudOperation) => authFor(operation) !== false;
+	const routeAuth = (operation: CrudOperation) => {
+		const options = authFor(operation);
+
+		return options ? { auth: options } : {};
+	};
+	// Problems an operation answers with besides invalid requests
+	const errorResponses = (operation: CrudOperation, ...statuses: number[]) =>
+		Object.fromEntries(
+			[
+				StatusCodes.BAD_REQUEST,
+				...(authFor(operation)
+					? [StatusCodes.UNAUTHORIZED, StatusCodes.FORBIDDEN]
+					: []),
+				...statuses,
+			].map((status) => [status, problemSchema]),
+		);
+
+	const contextOf = ({
+		request,
+		user,
+	}: {
+		request: Request;
+		user?: SessionUser;
+	}): CrudContext => ({ user, log: getRequestLogger(request) });
+
+	const mask = (row: Row<Table>) =>
+		Object.fromEntries(
+			Object.entries(row as Record<string, unknown>).filter(
+				([column]) => !hidden.has(column),
+			),
+		) as Omit<Row<Table>, Hidden>;
+
+	const checkWritable = (input: Record<string, unknown>) => {
+		const errors: FieldError[] = Object.keys(input)
+			.filter((field) => readOnly.has(field))
+			.map((field) => ({
+				field,
+				code: "invalid_key",
+				message: `${field} is read-only`,
+			}));
+
+		if (errors.length > 0) {
+			throw new ValidationError(undefined, errors);
+		}
+
+		return input as Partial<Insert<Table>>;
+	};
+
+	const findById = async (value: string) =>
+		O.first(
+			(await db
+				.select()
+				.from(table as PgTable)
+				.where(eq(idColumn, value))
+				.limit(1)) as Row<Table>[],
+		).okOr(new NotFoundError(name));
+
+	const router = new Elysia({ prefix }).use(authMiddleware);
+	// Registers an operation unless its permission is false, typed as if it
+	// were so Eden sees every route. Route methods return their own instance.
+	const optional = <Next>(operation: CrudOperation, register: () => Next) =>
+		(enabled(operation) ? register() : router) as Next;
+
+	const withList = optional("list", () =>
+		router.get(
+			"/",
+			async ({ request }) => {
+				const { where, orderBy, page, limit, offset } = listQuery
+					.parse(new URL(request.url).searchParams)
+					.unwrap();
+				const [rows, [totals]] = await Promise.all([
+					db
+						.select()
+						.from(table as PgTable)
+						.where(where)
+						.orderBy(...orderBy)
+						.limit(limit)
+						.offset(offset),
+					db
+						.select({ total: count() })
+						.from(table as PgTable)
+						.where(where),
+				]);
+
+				return Response.paginate(
+					(rows as Row<Table>[]).map(mask),
+					page,
+					limit,
+					totals?.total ?? 0,
+				);
+			},
+			{
+				...routeAuth("list"),
+				query: listQuerySchema,
+				response: {
+					[StatusCodes.OK]: listSchema,
+					// An invalid filter, sort or page
+					...errorResponses("list", StatusCodes.UNPROCESSABLE_ENTITY),
+				},
+				detail: {
+					tags,
+					summary: `List ${name} records`,
+					description: `Filter with filter[field][operator]=value on: ${
+						Object.keys(list.fields ?? {}).join(", ") || "none"
+					}`,
+				},
+			},
+		),
+	);
+
+	const withGet = optional("get", () =>
+		withList.get(
+			"/:id",
+			async ({ params }) =>
+				Response.ok(mask((await findById(params.id)).unwrap())),
+			{
+				...routeAuth("get"),
+				params,
+				response: {
+					[StatusCodes.OK]: itemSchema,
+					...errorResponses("get", StatusCodes.NOT_FOUND),
+				},
+				detail: { tags, summary: `Get a ${name}` },
+			},
+		),
+	);
+
+	const withCreate = optional("create", () =>
+		withGet.post(
+			"/",
+			async (context) => {
+				const hookContext = contextOf(context);
+				const input = checkWritable(context.body);
+				const values =
+					(await hooks.beforeCreate?.(input, hookContext)) ?? input;
+				const [row] = (await db
+					.insert(table)
+					.values(values as Insert<Table>)
+					.returning()) as Row<Table>[];
+
+				await hooks.afterCreate?.(row as Row<Table>, hookContext);
+				context.set.status = StatusCodes.CREATED;
+
+				return Response.ok(mask(row as Row<Table>));
+			},
+			{
+				...routeAuth("create"),
+				body: schemas.create,
+				response: {
+					[StatusCodes.CREATED]: itemSchema,
+					...errorResponses(
+						"create",
+						StatusCodes.CONFLICT,
+						StatusCodes.UNPROCESSABLE_ENTITY,
+					),
+				},
+				detail: { tags, summary: `Create a ${name}` },
+			},
+		),
+	);
+
+	const withUpdate = optional("update", () =>
+		withCreate.patch(
+			"/:id",
+			async (context) => {
+				const hookContext = contextOf(context);
+				const input = checkWritable(context.body);
+				const values =
+					(await hooks.beforeUpdate?.(context.params.id, input, hookContext)) ??
+					input;
+
+				// Drizzle refuses an update without values, undefined ones are skipped
+				if (Object.values(values).every((value) => value === undefined)) {
+					throw new ValidationError("Nothing to update", [
+						{
+							field: "",
+							code: "too_small",
+							message: "Set at least one writable field",
+						},
+					]);
+				}
+
+				const [row] = (await db
+					.update(table)
+					.set(values as Partial<Insert<Table>>)
+					.where(eq(idColumn, context.params.id))
+					.returning()) as Row<Table>[];
+
+				if (!row) {
+					throw new NotFoundError(name);
+				}
+
+				await hooks.afterUpdate?.(row, hookContext);
+
+				return Response.ok(mask(row));
+			},
+			{
+				...routeAuth("update"),
+				params,
+				body: updateSchema,
+				response: {
+					[StatusCodes.OK]: itemSchema,
+					...errorResponses(
+						"update",
+						StatusCodes.NOT_FOUND,
+						StatusCodes.CONFLICT,
+						StatusCodes.UNPROCESSABLE_ENTITY,
+					),
+				},
+				detail: { tags, summary: `Update a ${name}` },
+			},
+		),
+	);
+
+	return optional("delete", () =>
+		withUpdate.delete(
+			"/:id",
+			async (context) => {
+				const hookContext = contextOf(context);
+
+				await hooks.beforeDelete?.(context.params.id, hookContext);
+
+				const [row] = (await db
+					.delete(table)
+					.where(eq(idColumn, context.params.id))
+					.returning()) as Row<Table>[];
+
+				if (!row) {
+					throw new NotFoundError(name);
+				}
+
+				await hooks.afterDelete?.(row, hookContext);
+
+				// Without a body, which a 204 must not have
+				return new globalThis.Response(null, {
+					status: StatusCodes.NO_CONTENT,
+				});
+			},
+			{
+				...routeAuth("delete"),
+				params,
+				response: {
+					[StatusCodes.NO_CONTENT]: t.Void({ description: `${name} deleted` }),
+					...errorResponses("delete", StatusCodes.NOT_FOUND),
+				},
+				detail: { tags, summary: `Delete a ${name}` },
+			},
+		),
+	);
+}
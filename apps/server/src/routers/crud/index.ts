@@ -0,0 +1,2 @@
+// CRUD router factory exports
+export * from "./crud.router";
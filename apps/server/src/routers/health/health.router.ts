@@ -1,21 +1,73 @@
 import { Elysia } from "elysia";
 
+import { config } from "../../shared/config";
 import { StatusCodes } from "../../shared/const";
-import { Response } from "../../shared/utils";
+import {
+	type HealthProbe,
+	type HealthReport,
+	runHealthChecks,
+} from "../../shared/lib";
+import type { ApiResponse } from "../../shared/utils";
 
-const healthRouter = new Elysia({ prefix: "/health" }).get("/", ({ set }) => {
-	const startTime = Date.now();
-	const responseTime = Date.now() - startTime;
+export interface HealthResponse extends HealthReport {
+	timestamp: string;
+	uptime: number;
+	version: string;
+	responseTime: number;
+}
 
-	set.status = StatusCodes.OK;
+async function probe(
+	name: HealthProbe,
+	version: string,
+): Promise<{ statusCode: number; body: ApiResponse<HealthResponse> }> {
+	const startTime = performance.now();
+	const report = await runHealthChecks(name);
+	const healthy = report.status !== "unhealthy";
 
-	return Response.ok({
-		timestamp: new Date().toISOString(),
-		uptime: process.uptime(),
-		version: "1.0.0",
-		responseTime,
-		status: "healthy",
+	return {
+		statusCode: healthy ? StatusCodes.OK : StatusCodes.SERVICE_UNAVAILABLE,
+		body: {
+			success: healthy,
+			data: {
+				...report,
+				timestamp: new Date().toISOString(),
+				uptime: process.uptime(),
+				version,
+				responseTime: Math.round(performance.now() - startTime),
+			},
+		},
+	};
+}
+
+const healthRouter = new Elysia({ prefix: "/health" })
+	.use(config)
+	.get("/", async ({ set, config }) => {
+		const { statusCode, body } = await probe("ready", config.core.version);
+
+		set.status = statusCode;
+
+		return body;
+	})
+	.get("/live", async ({ set, config }) => {
+		const { statusCode, body } = await probe("live", config.core.version);
+
+		set.status = statusCode;
+
+		return body;
+	})
+	.get("/ready", async ({ set, config }) => {
+		const { statusCode, body } = await probe("ready", config.core.version);
+
+		set.status = statusCode;
+
+		return body;
+	})
+	.get("/startup", async ({ set, config }) => {
+		const { statusCode, body } = await probe("startup", config.core.version);
+
+		set.status = statusCode;
+
+		return body;
 	});
-});
 
 export default healthRouter;
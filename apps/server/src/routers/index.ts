@@ -1,5 +1,14 @@
 import { Elysia } from "elysia";
 
+import { adminRouter } from "./admin";
+import { clientErrorsRouter } from "./client-errors";
 import { healthRouter } from "./health";
+import { metricsRouter } from "./metrics";
+import { problemsRouter } from "./problems";
 
-export const routers = new Elysia().use(healthRouter);
+export const routers = new Elysia()
+	.use(healthRouter)
+	.use(adminRouter)
+	.use(metricsRouter)
+	.use(problemsRouter)
+	.use(clientErrorsRouter);
@@ -0,0 +1,2 @@
+// Metrics router exports
+export { default as metricsRouter } from "./metrics.router";
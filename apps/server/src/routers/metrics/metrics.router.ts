@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "node:crypto";
+import { Elysia } from "elysia";
+
+import { config } from "../../shared/config";
+import { StatusCodes } from "../../shared/const";
+import { UnauthorizedError } from "../../shared/errors";
+import { metrics, PROMETHEUS_CONTENT_TYPE } from "../../shared/lib";
+
+function isAuthorized(header: string | undefined, token: string): boolean {
+	const provided = Buffer.from(header?.replace(/^Bearer /i, "") ?? "");
+	const expected = Buffer.from(token);
+
+	return (
+		provided.length === expected.length && timingSafeEqual(provided, expected)
+	);
+}
+
+const metricsRouter = new Elysia()
+	.use(config)
+	.get("/metrics", ({ headers, set, config: { metrics: metricsConfig } }) => {
+		if (!(metricsConfig.enabled || metricsConfig.token)) {
+			set.status = StatusCodes.NOT_FOUND;
+			return "Not Found";
+		}
+
+		if (
+			metricsConfig.token &&
+			!isAuthorized(headers.authorization, metricsConfig.token)
+		) {
+			throw new UnauthorizedError("Invalid metrics token");
+		}
+
+		// A string body would be sent as plain text without the format version
+		return new Response(metrics.render(), {
+			headers: { "content-type": PROMETHEUS_CONTENT_TYPE },
+		});
+	});
+
+export default metricsRouter;
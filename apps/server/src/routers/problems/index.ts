@@ -0,0 +1,2 @@
+// Problems router exports
+export { default as problemsRouter } from "./problems.router";
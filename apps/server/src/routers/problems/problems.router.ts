@@ -0,0 +1,37 @@
+import { Elysia } from "elysia";
+
+import {
+	type ErrorCode,
+	type ErrorCodeDefinition,
+	ErrorCodes,
+} from "../../shared/const";
+import { NotFoundError } from "../../shared/errors";
+import { problemType, Response } from "../../shared/utils";
+
+export interface ProblemTypeResponse extends ErrorCodeDefinition {
+	code: ErrorCode;
+	type: string;
+}
+
+// The catalog, so the `type` URI of every problem response resolves
+const problemTypes: ProblemTypeResponse[] = Object.entries(ErrorCodes).map(
+	([code, definition]) => ({
+		code: code as ErrorCode,
+		type: problemType(code as ErrorCode),
+		...definition,
+	}),
+);
+
+const problemsRouter = new Elysia({ prefix: "/problems" })
+	.get("/", () => Response.ok(problemTypes))
+	.get("/:slug", ({ path }) => {
+		const problem = problemTypes.find(({ type }) => type === path);
+
+		if (!problem) {
+			throw new NotFoundError("Problem type");
+		}
+
+		return Response.ok(problem);
+	});
+
+export default problemsRouter;
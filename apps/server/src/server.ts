@@ -0,0 +1,9 @@
+import app from "./index";
+import { coreConfig } from "./shared/config";
+import { startServer } from "./shared/lib";
+
+startServer(app, {
+	port: coreConfig.port,
+	shutdownDelayMs: coreConfig.shutdownDelayMs,
+	shutdownTimeoutMs: coreConfig.shutdownTimeoutMs,
+});
@@ -0,0 +1,29 @@
+import { Elysia } from "elysia";
+
+import authConfig from "./auth.config";
+import coreConfig from "./core.config";
+import corsConfig from "./cors.config";
+import errorReportingConfig from "./error-reporting.config";
+import loggerConfig from "./logger.config";
+import metricsConfig from "./metrics.config";
+import rateLimitConfig from "./rate-limit.config";
+import tracingConfig from "./tracing.config";
+
+// Sections the app itself is built from. Modules that register their own
+// sections with defineConfigSection import those directly instead.
+const appConfig = {
+	core: coreConfig,
+	auth: authConfig,
+	cors: corsConfig,
+	logger: loggerConfig,
+	metrics: metricsConfig,
+	rateLimit: rateLimitConfig,
+	tracing: tracingConfig,
+	errorReporting: errorReportingConfig,
+};
+
+export type AppConfig = typeof appConfig;
+
+const config = new Elysia({ name: "config" }).decorate("config", appConfig);
+
+export default config;
@@ -1,22 +1,96 @@
-import { Elysia } from "elysia";
+import { z } from "zod";
 
-import { env } from "../../env";
+import { defineConfigSection, nodeEnv } from "./config";
 
-export interface AuthConfig {
-	secret: string;
-	sessionTimeout: number;
-}
+// Only ever used outside production, which must set its own secret
+const DEVELOPMENT_SECRET = "your-secret-key";
+
+const MIN_SECRET_LENGTH = 32;
+const MIN_DISTINCT_CHARACTERS = 10;
+
+// Placeholders copied from docs and compose files
+const KNOWN_DEFAULT_SECRETS = new Set([
+	DEVELOPMENT_SECRET,
+	"secret",
+	"changeme",
+	"change-me",
+	"better-auth-secret",
+	"your-secret",
+	"your_secret_key",
+]);
+
+/**
+ * Reason a secret must not be used in production, if any
+ */
+export function weakSecretReason(secret: string): string | undefined {
+	if (KNOWN_DEFAULT_SECRETS.has(secret.toLowerCase())) {
+		return "is a known default value";
+	}
+
+	if (secret.length < MIN_SECRET_LENGTH) {
+		return `is shorter than ${MIN_SECRET_LENGTH} characters`;
+	}
+
+	if (new Set(secret).size < MIN_DISTINCT_CHARACTERS) {
+		return "is not random enough";
+	}
 
-function loadAuthConfig(): AuthConfig {
-	return {
-		secret: env.BETTER_AUTH_SECRET,
-		sessionTimeout: env.SESSION_TIMEOUT,
-	};
+	return;
 }
 
-const authConfig = new Elysia({ name: "authConfig" }).decorate(
-	"authConfig",
-	loadAuthConfig(),
-);
+// Newest first: the first secret signs, every secret verifies
+const secretList = z
+	.string()
+	.transform((value) =>
+		value
+			.split(/[,\n]/)
+			.map((secret) => secret.trim())
+			.filter(Boolean),
+	)
+	.pipe(z.array(z.string()).min(1, "at least one secret is required"))
+	.superRefine((secrets, context) => {
+		if (nodeEnv !== "production") {
+			return;
+		}
+
+		for (const [index, secret] of secrets.entries()) {
+			const reason = weakSecretReason(secret);
+
+			if (reason) {
+				context.addIssue({
+					code: "custom",
+					message: `secret #${index + 1} ${reason}; generate one with \`openssl rand -base64 32\``,
+				});
+			}
+		}
+	})
+	.transform((secrets) => secrets as [string, ...string[]]);
+
+const authConfigSchema = z.object({
+	secrets: secretList,
+	sessionTimeout: z.coerce.number().int().positive().default(86_400),
+	// Public URL of the server, used for callbacks and cookie security checks
+	baseUrl: z.string().url().optional(),
+	// "none" lets the web app on another origin send the session cookie
+	cookieSameSite: z.enum(["strict", "lax", "none"]).default("none"),
+});
+
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+
+const authConfig = defineConfigSection({
+	name: "auth",
+	schema: authConfigSchema,
+	env: {
+		secrets: "BETTER_AUTH_SECRET",
+		sessionTimeout: "SESSION_TIMEOUT",
+		baseUrl: "BETTER_AUTH_URL",
+		cookieSameSite: "AUTH_COOKIE_SAMESITE",
+	},
+	defaults: {
+		development: { secrets: DEVELOPMENT_SECRET },
+		test: { secrets: DEVELOPMENT_SECRET },
+	},
+	secrets: ["secrets"],
+});
 
 export default authConfig;
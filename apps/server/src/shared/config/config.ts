@@ -0,0 +1,169 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+import { ConfigError } from "../errors";
+
+/**
+ * Layered configuration.
+ *
+ * Each section is a zod object resolved from, lowest to highest precedence:
+ * the schema's own defaults, the section's defaults for the current
+ * NODE_ENV, then environment variables. Any variable can instead be read
+ * from the file named by `<VAR>_FILE`, which is how Docker mounts secrets.
+ */
+
+export const NODE_ENVS = ["development", "production", "test"] as const;
+
+export type NodeEnv = (typeof NODE_ENVS)[number];
+
+const REDACTED = "[REDACTED]";
+
+// Environment variables are strings, so "false" must not coerce to true
+export const envBoolean = z.union([
+	z.boolean(),
+	z
+		.enum(["true", "false", "1", "0"])
+		.transform((value) => value === "true" || value === "1"),
+]);
+
+export interface ConfigSectionDefinition<TSchema extends z.ZodObject> {
+	name: string;
+	schema: TSchema;
+	// Environment variable each key is read from
+	env?: Partial<Record<keyof z.input<TSchema>, string>>;
+	// Defaults layered over the schema's own for a given NODE_ENV
+	defaults?: Partial<Record<NodeEnv, Partial<z.input<TSchema>>>>;
+	// Keys whose values are never printed
+	secrets?: Array<keyof z.output<TSchema>>;
+}
+
+interface RegisteredSection {
+	value: Record<string, unknown>;
+	secrets: string[];
+}
+
+const sections = new Map<string, RegisteredSection>();
+
+function resolveNodeEnv(): NodeEnv {
+	const value = process.env.NODE_ENV || "development";
+
+	if (!(NODE_ENVS as readonly string[]).includes(value)) {
+		throw new ConfigError("core", [
+			`NODE_ENV: expected one of ${NODE_ENVS.join(", ")}, received "${value}"`,
+		]);
+	}
+
+	return value as NodeEnv;
+}
+
+export const nodeEnv = resolveNodeEnv();
+
+/**
+ * Read a variable, preferring the contents of `<name>_FILE` when it is set.
+ * Empty values count as unset.
+ */
+function readEnv(name: string): string | undefined {
+	const filePath = process.env[`${name}_FILE`];
+	const value = process.env[name] || undefined;
+
+	if (!filePath) {
+		return value;
+	}
+
+	if (value !== undefined) {
+		throw new Error(`set either ${name} or ${name}_FILE, not both`);
+	}
+
+	try {
+		return readFileSync(filePath, "utf8").replace(/\r?\n$/, "") || undefined;
+	} catch (error) {
+		throw new Error(
+			`cannot read ${name}_FILE (${filePath}): ${(error as Error).message}`,
+		);
+	}
+}
+
+function redactSection(section: RegisteredSection): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...section.value };
+
+	for (const key of section.secrets) {
+		if (result[key] !== undefined) {
+			result[key] = REDACTED;
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Resolve, validate and register a config section. Throws a ConfigError
+ * listing every invalid key, so startup fails before anything connects.
+ *
+ * The returned object is frozen, and printing it (JSON or console) masks
+ * its secrets.
+ */
+export function defineConfigSection<TSchema extends z.ZodObject>(
+	definition: ConfigSectionDefinition<TSchema>,
+): Readonly<z.output<TSchema>> {
+	const { name, schema, env = {}, defaults = {}, secrets = [] } = definition;
+
+	if (sections.has(name)) {
+		throw new Error(`Config section "${name}" is already registered`);
+	}
+
+	const variables = env as Record<string, string>;
+	const input: Record<string, unknown> = { ...defaults[nodeEnv] };
+	const issues: string[] = [];
+
+	for (const [key, variable] of Object.entries(variables)) {
+		try {
+			const value = readEnv(variable);
+
+			if (value !== undefined) {
+				input[key] = value;
+			}
+		} catch (error) {
+			issues.push(`${variable}: ${(error as Error).message}`);
+		}
+	}
+
+	const result = schema.safeParse(input);
+
+	if (!result.success) {
+		for (const issue of result.error.issues) {
+			const key = String(issue.path[0] ?? "");
+			issues.push(`${variables[key] ?? key}: ${issue.message}`);
+		}
+	}
+
+	if (issues.length > 0 || !result.success) {
+		throw new ConfigError(name, issues);
+	}
+
+	const section: RegisteredSection = {
+		value: result.data as Record<string, unknown>,
+		secrets: secrets.map(String),
+	};
+	const print = () => redactSection(section);
+
+	Object.defineProperties(section.value, {
+		toJSON: { value: print },
+		[Symbol.for("nodejs.util.inspect.custom")]: { value: print },
+	});
+	Object.freeze(section.value);
+	sections.set(name, section);
+
+	return section.value as Readonly<z.output<TSchema>>;
+}
+
+/**
+ * Effective configuration of every registered section, with secrets masked
+ */
+export function getConfigSnapshot(): Record<string, Record<string, unknown>> {
+	return Object.fromEntries(
+		[...sections.entries()].map(([name, section]) => [
+			name,
+			redactSection(section),
+		]),
+	);
+}
@@ -1,24 +1,38 @@
-import { Elysia } from "elysia";
+import { z } from "zod";
 
-import { env } from "../../env";
+import { defineConfigSection, NODE_ENVS, nodeEnv } from "./config";
 
-export interface CoreConfig {
-	port: number;
-	nodeEnv: string;
-	databaseUrl: string;
-}
+const coreConfigSchema = z.object({
+	port: z.coerce.number().int().min(1).max(65_535).default(3001),
+	nodeEnv: z.enum(NODE_ENVS).default(nodeEnv),
+	databaseUrl: z.string().min(1),
+	version: z
+		.string()
+		.min(1)
+		.default(process.env.npm_package_version ?? "0.0.0"),
+	// Time between failing readiness and closing the listener
+	shutdownDelayMs: z.coerce.number().int().min(0).default(0),
+	// Budget for the whole shutdown, keep it below the platform's grace period
+	shutdownTimeoutMs: z.coerce.number().int().min(0).default(25_000),
+});
 
-function loadCoreConfig(): CoreConfig {
-	return {
-		port: env.PORT,
-		nodeEnv: env.NODE_ENV,
-		databaseUrl: env.DATABASE_URL,
-	};
-}
+export type CoreConfig = z.infer<typeof coreConfigSchema>;
 
-const coreConfig = new Elysia({ name: "coreConfig" }).decorate(
-	"coreConfig",
-	loadCoreConfig(),
-);
+const coreConfig = defineConfigSection({
+	name: "core",
+	schema: coreConfigSchema,
+	env: {
+		port: "PORT",
+		databaseUrl: "DATABASE_URL",
+		version: "APP_VERSION",
+		shutdownDelayMs: "SHUTDOWN_DELAY_MS",
+		shutdownTimeoutMs: "SHUTDOWN_TIMEOUT_MS",
+	},
+	defaults: {
+		production: { shutdownDelayMs: 5000 },
+	},
+	// Connection strings embed the database password
+	secrets: ["databaseUrl"],
+});
 
 export default coreConfig;
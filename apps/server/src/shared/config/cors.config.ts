@@ -1,26 +1,44 @@
-import { Elysia } from "elysia";
+import { z } from "zod";
 
-import { env } from "../../env";
+import { defineConfigSection } from "./config";
 
-export interface CorsConfig {
-	origin: string;
-	methods: string[];
-	allowedHeaders: string[];
-	credentials: boolean;
-}
+const corsConfigSchema = z.object({
+	// "*" is accepted so the security report can flag it
+	origin: z
+		.union([z.literal("*"), z.string().url()])
+		.default("http://localhost:3000"),
+	methods: z
+		.array(z.string())
+		.default(["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"]),
+	allowedHeaders: z
+		.array(z.string())
+		.default([
+			"Content-Type",
+			"Authorization",
+			"X-Request-Id",
+			"traceparent",
+			"tracestate",
+		]),
+	exposedHeaders: z
+		.array(z.string())
+		.default([
+			"X-Request-Id",
+			"RateLimit-Limit",
+			"RateLimit-Remaining",
+			"RateLimit-Reset",
+			"Retry-After",
+		]),
+	credentials: z.boolean().default(true),
+});
 
-function loadCorsConfig(): CorsConfig {
-	return {
-		origin: env.CORS_ORIGIN,
-		methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-		allowedHeaders: ["Content-Type", "Authorization"],
-		credentials: true,
-	};
-}
+export type CorsConfig = z.infer<typeof corsConfigSchema>;
 
-const corsConfig = new Elysia({ name: "corsConfig" }).decorate(
-	"corsConfig",
-	loadCorsConfig(),
-);
+const corsConfig = defineConfigSection({
+	name: "cors",
+	schema: corsConfigSchema,
+	env: {
+		origin: "CORS_ORIGIN",
+	},
+});
 
 export default corsConfig;
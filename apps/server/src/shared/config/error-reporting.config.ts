@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+import { defineConfigSection } from "./config";
+
+export const ERROR_REPORTING_SINKS = [
+	"none",
+	"memory",
+	"file",
+	"sentry",
+] as const;
+
+export type ErrorReportingSink = (typeof ERROR_REPORTING_SINKS)[number];
+
+const errorReportingConfigSchema = z
+	.object({
+		sink: z.enum(ERROR_REPORTING_SINKS).default("none"),
+		// Any Sentry-compatible DSN, e.g. GlitchTip or a self-hosted Sentry
+		dsn: z.string().url().optional(),
+		filePath: z.string().min(1).default("errors.jsonl"),
+		// Reports above this rate are dropped, per fingerprint a tenth of it
+		maxPerMinute: z.coerce.number().int().positive().default(60),
+		breadcrumbs: z.coerce.number().int().min(0).max(100).default(20),
+	})
+	.refine((config) => config.sink !== "sentry" || config.dsn, {
+		message: "SENTRY_DSN is required for the sentry sink",
+		path: ["dsn"],
+	});
+
+export type ErrorReportingConfig = z.infer<typeof errorReportingConfigSchema>;
+
+const errorReportingConfig = defineConfigSection({
+	name: "errorReporting",
+	schema: errorReportingConfigSchema,
+	env: {
+		sink: "ERROR_REPORTING_SINK",
+		dsn: "SENTRY_DSN",
+		filePath: "ERROR_REPORTING_FILE_PATH",
+		maxPerMinute: "ERROR_REPORTING_MAX_PER_MINUTE",
+		breadcrumbs: "ERROR_REPORTING_BREADCRUMBS",
+	},
+	secrets: ["dsn"],
+});
+
+export default errorReportingConfig;
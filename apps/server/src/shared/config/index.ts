@@ -1,3 +1,31 @@
-export { default as authConfig } from "./auth.config";
-export { default as coreConfig } from "./core.config";
-export { default as corsConfig } from "./cors.config";
+export { type AppConfig, default as config } from "./app.config";
+export {
+	type AuthConfig,
+	default as authConfig,
+	weakSecretReason,
+} from "./auth.config";
+export * from "./config";
+export { type CoreConfig, default as coreConfig } from "./core.config";
+export { type CorsConfig, default as corsConfig } from "./cors.config";
+export {
+	default as errorReportingConfig,
+	ERROR_REPORTING_SINKS,
+	type ErrorReportingConfig,
+	type ErrorReportingSink,
+} from "./error-reporting.config";
+export { default as loggerConfig, type LoggerConfig } from "./logger.config";
+export {
+	default as metricsConfig,
+	type MetricsConfig,
+} from "./metrics.config";
+export {
+	default as rateLimitConfig,
+	RATE_LIMIT_STORES,
+	type RateLimitConfig,
+	type RateLimitStoreKind,
+} from "./rate-limit.config";
+export {
+	default as tracingConfig,
+	type TracingConfig,
+	type TracingExporter,
+} from "./tracing.config";
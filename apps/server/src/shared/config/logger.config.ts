@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+import { defineConfigSection } from "./config";
+import { LOG_LEVELS } from "../lib/logger";
+
+const loggerConfigSchema = z.object({
+	level: z.enum(LOG_LEVELS).default("debug"),
+	format: z.enum(["json", "pretty"]).default("pretty"),
+	accessLogSampleRate: z.coerce.number().min(0).max(1).default(1),
+});
+
+export type LoggerConfig = z.infer<typeof loggerConfigSchema>;
+
+const loggerConfig = defineConfigSection({
+	name: "logger",
+	schema: loggerConfigSchema,
+	env: {
+		level: "LOG_LEVEL",
+		format: "LOG_FORMAT",
+		accessLogSampleRate: "LOG_ACCESS_SAMPLE_RATE",
+	},
+	defaults: {
+		production: { level: "info", format: "json" },
+	},
+});
+
+export default loggerConfig;
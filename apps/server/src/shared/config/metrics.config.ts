@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+import { defineConfigSection, envBoolean } from "./config";
+
+const metricsConfigSchema = z.object({
+	// Bearer token scrapers must send. Setting one always serves /metrics.
+	token: z.string().min(16).optional(),
+	// Serve /metrics without a token, which is off in production
+	enabled: envBoolean.default(false),
+});
+
+export type MetricsConfig = z.infer<typeof metricsConfigSchema>;
+
+const metricsConfig = defineConfigSection({
+	name: "metrics",
+	schema: metricsConfigSchema,
+	env: {
+		token: "METRICS_TOKEN",
+		enabled: "METRICS_ENABLED",
+	},
+	defaults: {
+		development: { enabled: true },
+		test: { enabled: true },
+	},
+	secrets: ["token"],
+});
+
+export default metricsConfig;
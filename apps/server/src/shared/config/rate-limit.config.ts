@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+import { defineConfigSection, envBoolean } from "./config";
+
+export const RATE_LIMIT_STORES = ["memory", "postgres"] as const;
+
+const rateLimitConfigSchema = z.object({
+	enabled: envBoolean.default(true),
+	// Memory counters are per instance; use postgres when running several
+	store: z.enum(RATE_LIMIT_STORES).default("memory"),
+	// Take the client IP from X-Forwarded-For. Only enable behind a proxy,
+	// otherwise clients choose their own key.
+	trustProxy: envBoolean.default(false),
+	// Proxies in front of the server that append to X-Forwarded-For, the
+	// client is the entry this many from the right
+	proxyHops: z.coerce.number().int().min(1).default(1),
+});
+
+export type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+export type RateLimitStoreKind = RateLimitConfig["store"];
+
+const rateLimitConfig = defineConfigSection({
+	name: "rateLimit",
+	schema: rateLimitConfigSchema,
+	env: {
+		enabled: "RATE_LIMIT_ENABLED",
+		store: "RATE_LIMIT_STORE",
+		trustProxy: "RATE_LIMIT_TRUST_PROXY",
+		proxyHops: "RATE_LIMIT_PROXY_HOPS",
+	},
+	defaults: {
+		test: { enabled: false },
+	},
+});
+
+export default rateLimitConfig;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+import { defineConfigSection } from "./config";
+
+export const TRACING_EXPORTERS = ["none", "console", "file", "otlp"] as const;
+
+export type TracingExporter = (typeof TRACING_EXPORTERS)[number];
+
+const tracingConfigSchema = z.object({
+	exporter: z.enum(TRACING_EXPORTERS).default("none"),
+	serviceName: z.string().min(1).default("server"),
+	sampleRatio: z.coerce.number().min(0).max(1).default(1),
+	filePath: z.string().min(1).default("traces.jsonl"),
+	otlpEndpoint: z.string().url().default("http://localhost:4318"),
+});
+
+export type TracingConfig = z.infer<typeof tracingConfigSchema>;
+
+const tracingConfig = defineConfigSection({
+	name: "tracing",
+	schema: tracingConfigSchema,
+	env: {
+		exporter: "TRACING_EXPORTER",
+		serviceName: "OTEL_SERVICE_NAME",
+		sampleRatio: "TRACING_SAMPLE_RATIO",
+		filePath: "TRACING_FILE_PATH",
+		otlpEndpoint: "OTEL_EXPORTER_OTLP_ENDPOINT",
+	},
+});
+
+export default tracingConfig;
@@ -0,0 +1,109 @@
+import { StatusCodes } from "./http-status.const";
+
+export interface ErrorCodeDefinition {
+	status: number;
+	// Short summary that never changes between occurrences
+	title: string;
+	description: string;
+}
+
+/**
+ * Stable, machine-readable error codes clients can branch on.
+ *
+ * Codes are part of the API: never rename or reuse one, add a new code
+ * instead. Each code is documented at `/problems/<kebab-case-code>`.
+ */
+export const ErrorCodes = {
+	BAD_REQUEST: {
+		status: StatusCodes.BAD_REQUEST,
+		title: "Bad request",
+		description: "The request could not be understood by the server.",
+	},
+	INVALID_REQUEST: {
+		status: StatusCodes.BAD_REQUEST,
+		title: "Invalid request data",
+		description:
+			"The request body, query or parameters do not match the route's schema.",
+	},
+	UNAUTHORIZED: {
+		status: StatusCodes.UNAUTHORIZED,
+		title: "Authentication required",
+		description: "The request needs a valid session or bearer token.",
+	},
+	PAYMENT_REQUIRED: {
+		status: StatusCodes.PAYMENT_REQUIRED,
+		title: "Payment required",
+		description: "The action needs an active subscription or available credit.",
+	},
+	FORBIDDEN: {
+		status: StatusCodes.FORBIDDEN,
+		title: "Access denied",
+		description: "The authenticated user may not perform this action.",
+	},
+	NOT_FOUND: {
+		status: StatusCodes.NOT_FOUND,
+		title: "Resource not found",
+		description: "The requested resource does not exist.",
+	},
+	ROUTE_NOT_FOUND: {
+		status: StatusCodes.NOT_FOUND,
+		title: "Route not found",
+		description: "No route matches the request method and path.",
+	},
+	METHOD_NOT_ALLOWED: {
+		status: StatusCodes.METHOD_NOT_ALLOWED,
+		title: "Method not allowed",
+		description:
+			"The route does not support the request method. The Allow header lists the methods it does.",
+	},
+	CONFLICT: {
+		status: StatusCodes.CONFLICT,
+		title: "Resource conflict",
+		description:
+			"The request conflicts with the current state of the resource.",
+	},
+	GONE: {
+		status: StatusCodes.GONE,
+		title: "Resource gone",
+		description: "The resource existed but was permanently removed.",
+	},
+	VALIDATION_FAILED: {
+		status: StatusCodes.UNPROCESSABLE_ENTITY,
+		title: "Validation failed",
+		description: "The request is well-formed but its values are not valid.",
+	},
+	RATE_LIMITED: {
+		status: StatusCodes.TOO_MANY_REQUESTS,
+		title: "Too many requests",
+		description:
+			"The client sent too many requests. Retry after the number of seconds in the Retry-After header.",
+	},
+	INTERNAL_ERROR: {
+		status: StatusCodes.INTERNAL_SERVER_ERROR,
+		title: "An unexpected error occurred",
+		description:
+			"The server failed to handle the request. Report the requestId if it persists.",
+	},
+	DATABASE_ERROR: {
+		status: StatusCodes.INTERNAL_SERVER_ERROR,
+		title: "Database error occurred",
+		description: "The server failed to read or write its database.",
+	},
+	UPSTREAM_ERROR: {
+		status: StatusCodes.BAD_GATEWAY,
+		title: "Network error occurred",
+		description: "A service the server depends on failed or was unreachable.",
+	},
+	SERVICE_UNAVAILABLE: {
+		status: StatusCodes.SERVICE_UNAVAILABLE,
+		title: "Service unavailable",
+		description:
+			"The server is temporarily unable to handle the request. Retry later, after Retry-After seconds if given.",
+	},
+} as const satisfies Record<string, ErrorCodeDefinition>;
+
+export type ErrorCode = keyof typeof ErrorCodes;
+
+export function isErrorCode(value: string): value is ErrorCode {
+	return Object.hasOwn(ErrorCodes, value);
+}
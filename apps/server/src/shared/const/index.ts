@@ -1 +1,2 @@
+export * from "./error-code.const";
 export * from "./http-status.const";
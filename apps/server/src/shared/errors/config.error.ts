@@ -0,0 +1,10 @@
+// Configuration error classes
+export class ConfigError extends Error {
+	issues: string[];
+
+	constructor(section: string, issues: string[]) {
+		super(`Invalid "${section}" configuration:\n  - ${issues.join("\n  - ")}`);
+		this.name = "ConfigError";
+		this.issues = issues;
+	}
+}
@@ -0,0 +1,193 @@
+import postgres from "postgres";
+
+import {
+	ConflictError,
+	HttpError,
+	ServiceUnavailableError,
+	ValidationError,
+} from "./http.error";
+import { err, ok, type Result } from "../utils";
+
+// SQLSTATE codes the translation understands
+export const PgErrorCode = {
+	NOT_NULL_VIOLATION: "23502",
+	FOREIGN_KEY_VIOLATION: "23503",
+	UNIQUE_VIOLATION: "23505",
+	SERIALIZATION_FAILURE: "40001",
+	DEADLOCK_DETECTED: "40P01",
+	QUERY_CANCELED: "57014",
+} as const;
+
+const RETRYABLE_CODES = new Set<string>([
+	PgErrorCode.SERIALIZATION_FAILURE,
+	PgErrorCode.DEADLOCK_DETECTED,
+]);
+
+// "Key (org_id, slug)=(...) already exists." names the offending columns
+const KEY_COLUMNS_PATTERN = /^Key \(([^)]+)\)=/;
+// "... is still referenced from table "session"."
+const REFERENCING_TABLE_PATTERN = /referenced from table "([^"]+)"/;
+
+/**
+ * A database failure with no client-facing meaning. The SQLSTATE is kept
+ * for logs, never sent.
+ */
+export class DatabaseError extends HttpError {
+	readonly sqlState?: string;
+
+	constructor(message = "Database error occurred", cause?: unknown) {
+		super("DATABASE_ERROR", message, { cause });
+		this.name = "DatabaseError";
+		this.sqlState = findPostgresError(cause)?.code;
+	}
+}
+
+/**
+ * The driver error behind an error, which drizzle wraps in a
+ * DrizzleQueryError
+ */
+export function findPostgresError(
+	error: unknown,
+): postgres.PostgresError | undefined {
+	let current = error;
+
+	while (current instanceof Error) {
+		if (current instanceof postgres.PostgresError) {
+			return current;
+		}
+
+		current = current.cause;
+	}
+
+	return;
+}
+
+/**
+ * True for failures that succeed when the transaction is simply run again
+ */
+export function isRetryableDatabaseError(error: unknown): boolean {
+	const code = findPostgresError(error)?.code;
+
+	return code !== undefined && RETRYABLE_CODES.has(code);
+}
+
+// Column names are snake_case, the fields clients send are camelCase
+function toFieldName(column: string): string {
+	return column.replace(/_([a-z0-9])/g, (_, letter: string) =>
+		letter.toUpperCase(),
+	);
+}
+
+function keyColumns(error: postgres.PostgresError): string[] {
+	const columns = error.detail?.match(KEY_COLUMNS_PATTERN)?.[1];
+
+	return columns
+		? columns.split(",").map((column) => toFieldName(column.trim()))
+		: [];
+}
+
+/**
+ * Translate a failed query into the HttpError it means for the client.
+ * Constraint values are never echoed back, they may be personal data.
+ */
+export function translateDatabaseError(error: unknown): HttpError {
+	if (error instanceof HttpError) {
+		return error;
+	}
+
+	const pgError = findPostgresError(error);
+	const constraint = pgError?.constraint_name;
+
+	switch (pgError?.code) {
+		case PgErrorCode.UNIQUE_VIOLATION: {
+			const column = keyColumns(pgError).join(", ") || undefined;
+
+			return new ConflictError(
+				column ? `${column} already exists` : undefined,
+				{ details: { constraint, column }, cause: error },
+			);
+		}
+		case PgErrorCode.FOREIGN_KEY_VIOLATION: {
+			const referencedBy = pgError.detail?.match(
+				REFERENCING_TABLE_PATTERN,
+			)?.[1];
+
+			// Deleting a row others still point at
+			if (referencedBy) {
+				return new ConflictError(`Still referenced by ${referencedBy}`, {
+					details: { constraint, referencedBy },
+					cause: error,
+				});
+			}
+
+			const fields = keyColumns(pgError);
+
+			return new ValidationError(
+				"Referenced resource does not exist",
+				fields.map((field) => ({
+					field,
+					message: "does not reference an existing resource",
+				})),
+				{ cause: error },
+			);
+		}
+		case PgErrorCode.NOT_NULL_VIOLATION: {
+			const field = toFieldName(pgError.column_name ?? "unknown");
+
+			return new ValidationError(
+				`${field} is required`,
+				[{ field, message: "is required" }],
+				{ cause: error },
+			);
+		}
+		case PgErrorCode.SERIALIZATION_FAILURE:
+		case PgErrorCode.DEADLOCK_DETECTED:
+			return new ServiceUnavailableError(
+				"Concurrent update conflict, retry the request",
+				{ retryAfter: 1, cause: error },
+			);
+		case PgErrorCode.QUERY_CANCELED:
+			return new ServiceUnavailableError("Database query timed out", {
+				cause: error,
+			});
+		default:
+			return new DatabaseError(undefined, error);
+	}
+}
+
+/**
+ * Run a query and return its failure as a translated error instead of
+ * throwing, for repositories that handle conflicts themselves
+ */
+export async function tryQuery<T>(
+	query: () => Promise<T>,
+): Promise<Result<T, HttpError>> {
+	try {
+		return ok(await query());
+	} catch (error) {
+		return err(translateDatabaseError(error));
+	}
+}
+
+/**
+ * Run a transaction again while it fails with a retryable error such as a
+ * serialization failure, backing off a little longer each time
+ */
+export async function withDatabaseRetry<T>(
+	transaction: () => Promise<T>,
+	{ attempts = 3, baseDelayMs = 20 } = {},
+): Promise<T> {
+	for (let attempt = 1; ; attempt += 1) {
+		try {
+			return await transaction();
+		} catch (error) {
+			if (attempt >= attempts || !isRetryableDatabaseError(error)) {
+				throw error;
+			}
+
+			const delayMs = baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random());
+
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
+		}
+	}
+}
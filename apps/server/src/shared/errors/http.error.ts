@@ -1,38 +1,281 @@
+import type { WireError } from "@workspace/shared";
+import type { ZodError } from "zod";
+
+import { type ErrorCode, ErrorCodes } from "../const";
+
 // HTTP-related error classes
-export class ValidationError extends Error {
-	field?: string;
 
-	constructor(message: string, field?: string) {
-		super(message);
-		this.name = "ValidationError";
-		this.field = field;
+export interface HttpErrorOptions {
+	// Members added to the problem details, e.g. the field errors
+	details?: Record<string, unknown>;
+	// Send the message and details to the client, defaults to status < 500
+	expose?: boolean;
+	headers?: Record<string, string>;
+	cause?: unknown;
+}
+
+/**
+ * Base of every error the error interceptor turns into a response. The
+ * status comes from the error-code catalog, so a subclass only picks a code.
+ */
+export class HttpError extends Error {
+	readonly status: number;
+	readonly code: ErrorCode;
+	readonly details?: Record<string, unknown>;
+	readonly expose: boolean;
+	readonly headers: Record<string, string>;
+
+	constructor(
+		code: ErrorCode,
+		message: string = ErrorCodes[code].title,
+		options: HttpErrorOptions = {},
+	) {
+		super(message, { cause: options.cause });
+		this.name = "HttpError";
+		this.status = ErrorCodes[code].status;
+		this.code = code;
+		this.details = options.details;
+		this.expose = options.expose ?? this.status < 500;
+		this.headers = options.headers ?? {};
 	}
 }
 
-export class NotFoundError extends Error {
-	constructor(resource: string) {
-		super(`${resource} not found`);
-		this.name = "NotFoundError";
+export interface FieldError {
+	// Dot-separated path of the invalid value, e.g. "address.city"
+	field: string;
+	// Why it is invalid, in zod's issue codes, e.g. "too_small"
+	code?: string;
+	message: string;
+}
+
+// An issue as Elysia reports it for a TypeBox or standard schema
+export interface SchemaIssue {
+	// JSON pointer for TypeBox ("/address/city"), dotted or "root" otherwise
+	path?: string;
+	message?: string;
+	summary?: string;
+	value?: unknown;
+	schema?: Record<string, unknown>;
+}
+
+// TypeBox's error types are numbers, so the code comes from the keyword
+function schemaIssueCode({ value, schema = {} }: SchemaIssue): string {
+	// Missing, or not the JSON type the schema declares
+	if (
+		value === undefined ||
+		(typeof schema.type === "string" &&
+			schema.type !== (Array.isArray(value) ? "array" : typeof value) &&
+			!(schema.type === "integer" && typeof value === "number"))
+	) {
+		return "invalid_type";
+	}
+
+	if ("format" in schema || "pattern" in schema) {
+		return "invalid_format";
+	}
+
+	const size =
+		typeof value === "string" || Array.isArray(value) ? value.length : value;
+
+	// Comparisons with a missing bound are NaN and false
+	if (typeof size === "number") {
+		if (
+			size < Number(schema.minLength ?? schema.minimum ?? schema.minItems) ||
+			size <= Number(schema.exclusiveMinimum)
+		) {
+			return "too_small";
+		}
+
+		if (
+			size > Number(schema.maxLength ?? schema.maximum ?? schema.maxItems) ||
+			size >= Number(schema.exclusiveMaximum)
+		) {
+			return "too_big";
+		}
+	}
+
+	return "invalid_type";
+}
+
+/**
+ * The field errors of a failed Elysia validation, the first issue of each
+ * field, as TypeBox reports a missing field once per keyword it breaks
+ */
+export function fieldErrorsFromSchema(issues: SchemaIssue[]): FieldError[] {
+	const errors = new Map<string, FieldError>();
+
+	for (const issue of issues) {
+		const path = issue.path === "root" ? "" : (issue.path ?? "");
+		const field = path.replace(/^\//, "").replaceAll("/", ".");
+
+		if (!errors.has(field)) {
+			errors.set(field, {
+				field,
+				// Standard schema issues reach Elysia without their code
+				...(issue.schema && { code: schemaIssueCode(issue) }),
+				// A schema's own `error` message wins over TypeBox's
+				message:
+					typeof issue.schema?.error === "string"
+						? issue.schema.error
+						: (issue.message ?? issue.summary ?? "is invalid"),
+			});
+		}
+	}
+
+	return [...errors.values()];
+}
+
+export class BadRequestError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super("BAD_REQUEST", message, options);
+		this.name = "BadRequestError";
 	}
 }
 
-export class UnauthorizedError extends Error {
-	constructor(message = "Authentication required") {
-		super(message);
+export class ValidationError extends HttpError {
+	readonly errors: FieldError[];
+
+	constructor(
+		message = "Validation failed",
+		errors: FieldError[] = [],
+		options: Omit<HttpErrorOptions, "details"> = {},
+	) {
+		super("VALIDATION_FAILED", message, { ...options, details: { errors } });
+		this.name = "ValidationError";
+		this.errors = errors;
+	}
+
+	static field(field: string, message: string): ValidationError {
+		return new ValidationError(message, [{ field, message }]);
+	}
+
+	// One field error per issue, keyed by the issue's path
+	static fromZod(error: ZodError): ValidationError {
+		return new ValidationError(
+			undefined,
+			error.issues.map((issue) => ({
+				field: issue.path.map(String).join("."),
+				code: issue.code,
+				message: issue.message,
+			})),
+			{ cause: error },
+		);
+	}
+}
+
+export class UnauthorizedError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super("UNAUTHORIZED", message, options);
 		this.name = "UnauthorizedError";
 	}
 }
 
-export class ForbiddenError extends Error {
-	constructor(message = "Access denied") {
-		super(message);
+export class PaymentRequiredError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super("PAYMENT_REQUIRED", message, options);
+		this.name = "PaymentRequiredError";
+	}
+}
+
+export class ForbiddenError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super("FORBIDDEN", message, options);
 		this.name = "ForbiddenError";
 	}
 }
 
-export class ConflictError extends Error {
-	constructor(message = "Resource conflict") {
-		super(message);
+export class NotFoundError extends HttpError {
+	constructor(resource: string, options?: HttpErrorOptions) {
+		super("NOT_FOUND", `${resource} not found`, options);
+		this.name = "NotFoundError";
+	}
+}
+
+export class MethodNotAllowedError extends HttpError {
+	constructor(allowed: readonly string[], options: HttpErrorOptions = {}) {
+		super("METHOD_NOT_ALLOWED", undefined, {
+			...options,
+			headers: { ...options.headers, allow: allowed.join(", ") },
+		});
+		this.name = "MethodNotAllowedError";
+	}
+}
+
+export class ConflictError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super("CONFLICT", message, options);
 		this.name = "ConflictError";
 	}
 }
+
+export class GoneError extends HttpError {
+	constructor(message?: string, options?: HttpErrorOptions) {
+		super("GONE", message, options);
+		this.name = "GoneError";
+	}
+}
+
+export class TooManyRequestsError extends HttpError {
+	// Seconds until the client may retry
+	readonly retryAfter: number;
+
+	constructor(
+		retryAfter: number,
+		message?: string,
+		options: HttpErrorOptions = {},
+	) {
+		super("RATE_LIMITED", message, {
+			...options,
+			headers: { ...options.headers, "retry-after": String(retryAfter) },
+		});
+		this.name = "TooManyRequestsError";
+		this.retryAfter = retryAfter;
+	}
+}
+
+export class UpstreamError extends HttpError {
+	// Name of the failing service, for logs and error reports
+	readonly service: string;
+
+	constructor(service: string, message?: string, options?: HttpErrorOptions) {
+		super("UPSTREAM_ERROR", message ?? `${service} request failed`, options);
+		this.name = "UpstreamError";
+		this.service = service;
+	}
+}
+
+export class ServiceUnavailableError extends HttpError {
+	constructor(
+		message?: string,
+		{ retryAfter, ...options }: HttpErrorOptions & { retryAfter?: number } = {},
+	) {
+		super("SERVICE_UNAVAILABLE", message, {
+			// The outage is the client's business, unlike other server errors
+			expose: true,
+			...options,
+			...(retryAfter !== undefined && {
+				headers: { ...options.headers, "retry-after": String(retryAfter) },
+			}),
+		});
+		this.name = "ServiceUnavailableError";
+	}
+}
+
+/**
+ * The wire form of an error for `R.toWire`. Like problem details, only
+ * exposed errors keep their message and details.
+ */
+export function toWireError(error: unknown): WireError<ErrorCode> {
+	const httpError =
+		error instanceof HttpError
+			? error
+			: new HttpError("INTERNAL_ERROR", undefined, { cause: error });
+
+	return httpError.expose
+		? {
+				code: httpError.code,
+				message: httpError.message,
+				...(httpError.details && { details: httpError.details }),
+			}
+		: { code: httpError.code, message: ErrorCodes[httpError.code].title };
+}
@@ -1,2 +1,4 @@
 // Export all error types
+export * from "./config.error";
+export * from "./database.error";
 export * from "./http.error";
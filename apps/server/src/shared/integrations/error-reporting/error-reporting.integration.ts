@@ -0,0 +1,48 @@
+import { Elysia } from "elysia";
+
+import { type AppConfig, config } from "../../config";
+import {
+	type ErrorSink,
+	errorReporter,
+	FileErrorSink,
+	MemoryErrorSink,
+	SentryErrorSink,
+} from "../../lib";
+
+function createSink({
+	sink,
+	dsn,
+	filePath,
+}: AppConfig["errorReporting"]): ErrorSink | undefined {
+	switch (sink) {
+		case "memory":
+			return new MemoryErrorSink();
+		case "file":
+			return new FileErrorSink(filePath);
+		case "sentry":
+			return dsn ? new SentryErrorSink(dsn) : undefined;
+		default:
+			return;
+	}
+}
+
+// The error interceptor captures 5xx errors, the ingest route client crashes
+function errorReportingHooks({ core, errorReporting }: AppConfig) {
+	errorReporter.configure({
+		sink: createSink(errorReporting),
+		environment: core.nodeEnv,
+		release: core.version,
+		maxPerMinute: errorReporting.maxPerMinute,
+		breadcrumbs: errorReporting.breadcrumbs,
+	});
+
+	return new Elysia({ name: "error-reporting-hooks" });
+}
+
+const errorReportingIntegration = new Elysia({
+	name: "error-reporting-integration",
+})
+	.use(config)
+	.use(({ decorator: { config } }) => errorReportingHooks(config));
+
+export default errorReportingIntegration;
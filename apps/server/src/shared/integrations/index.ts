@@ -1,3 +1,6 @@
 export { default as databaseIntegration } from "./database";
+export { default as errorReportingIntegration } from "./error-reporting";
 export { default as loggerIntegration } from "./logger";
+export { default as metricsIntegration } from "./metrics";
 export { default as openapiIntegration } from "./openapi";
+export { default as tracingIntegration } from "./tracing";
@@ -1,19 +1,88 @@
 import { Elysia } from "elysia";
-import logixlysia from "logixlysia";
-
-const loggerIntegration = new Elysia({ name: "logger-integration" }).use(
-	logixlysia({
-		config: {
-			showStartupMessage: true,
-			startupMessageFormat: "simple",
-			timestamp: {
-				translateTime: "yyyy-mm-dd HH:MM:ss",
-			},
-			ip: true,
-			customLogFormat:
-				"🦊 {now} {level} {duration} {method} {pathname} {status} {message} {ip}",
-		},
-	}),
-);
+
+import { config, type LoggerConfig } from "../../config";
+import { StatusCodes } from "../../const";
+import {
+	bindRequestLogger,
+	configureLogger,
+	getRequestLogger,
+	isAccessLogSampled,
+	type LogLevel,
+	tracer,
+} from "../../lib";
+import { getRequestId } from "../../middleware";
+import { errorStatusCode, toStatusCode } from "../../utils";
+
+interface AccessLogState {
+	startTime: number;
+	// Unhandled framework errors (e.g. NOT_FOUND) never update set.status
+	errorStatus?: number;
+}
+
+const accessLogs = new WeakMap<Request, AccessLogState>();
+
+function accessLogLevel(status: number): LogLevel {
+	if (status >= StatusCodes.INTERNAL_SERVER_ERROR) {
+		return "error";
+	}
+
+	return status >= StatusCodes.BAD_REQUEST ? "warn" : "info";
+}
+
+function loggerHooks(config: LoggerConfig) {
+	configureLogger(config);
+
+	return new Elysia({ name: "logger-hooks" })
+		.onRequest(({ request }) => {
+			accessLogs.set(request, { startTime: performance.now() });
+			bindRequestLogger(request, {
+				requestId: getRequestId(request),
+				traceId: tracer.activeSpan()?.context.traceId,
+				method: request.method,
+				path: new URL(request.url).pathname,
+			});
+		})
+		.derive({ as: "global" }, ({ request, route }) => ({
+			log: bindRequestLogger(request, { route }),
+		}))
+		.onError({ as: "global" }, ({ request, error }) => {
+			const state = accessLogs.get(request);
+
+			if (state) {
+				state.errorStatus = errorStatusCode(error);
+			}
+		})
+		.onAfterResponse({ as: "global" }, ({ request, set }) => {
+			const state = accessLogs.get(request);
+
+			if (!state) {
+				return;
+			}
+
+			accessLogs.delete(request);
+
+			const status = toStatusCode(set.status);
+			const statusCode =
+				status === StatusCodes.OK && state.errorStatus
+					? state.errorStatus
+					: status;
+
+			const level = accessLogLevel(statusCode);
+
+			if (level === "info" && !isAccessLogSampled()) {
+				return;
+			}
+
+			getRequestLogger(request)[level]("request completed", {
+				status: statusCode,
+				durationMs:
+					Math.round((performance.now() - state.startTime) * 100) / 100,
+			});
+		});
+}
+
+const loggerIntegration = new Elysia({ name: "logger-integration" })
+	.use(config)
+	.use(({ decorator: { config } }) => loggerHooks(config.logger));
 
 export default loggerIntegration;
@@ -0,0 +1,137 @@
+import { Elysia } from "elysia";
+
+import { getPoolStats } from "../../../db";
+import { StatusCodes } from "../../const";
+import { metrics } from "../../lib";
+import { errorStatusCode, toStatusCode } from "../../utils";
+
+const UNMATCHED_ROUTE = "unmatched";
+
+const requestsTotal = metrics.counter({
+	name: "http_requests_total",
+	help: "Total number of HTTP requests",
+});
+
+const requestDuration = metrics.histogram({
+	name: "http_request_duration_seconds",
+	help: "HTTP request latency in seconds",
+});
+
+const requestsInFlight = metrics.gauge({
+	name: "http_requests_in_flight",
+	help: "Number of HTTP requests currently being served",
+});
+
+const processCpuSeconds = metrics.counter({
+	name: "process_cpu_seconds_total",
+	help: "Total user and system CPU time spent in seconds",
+});
+
+const processMemoryBytes = metrics.gauge({
+	name: "process_memory_bytes",
+	help: "Process memory usage in bytes",
+});
+
+const processUptimeSeconds = metrics.gauge({
+	name: "process_uptime_seconds",
+	help: "Process uptime in seconds",
+});
+
+const dbPoolMaxConnections = metrics.gauge({
+	name: "db_pool_max_connections",
+	help: "Maximum number of connections in the Postgres pool",
+});
+
+const dbPoolOpenConnections = metrics.gauge({
+	name: "db_pool_open_connections",
+	help: "Number of open connections in the Postgres pool",
+});
+
+const dbQueriesTotal = metrics.counter({
+	name: "db_queries_total",
+	help: "Total number of queries sent to Postgres",
+});
+
+metrics.collect(() => {
+	const cpu = process.cpuUsage();
+	const memory = process.memoryUsage();
+
+	processCpuSeconds.set({ mode: "user" }, cpu.user / 1e6);
+	processCpuSeconds.set({ mode: "system" }, cpu.system / 1e6);
+	processMemoryBytes.set({ type: "rss" }, memory.rss);
+	processMemoryBytes.set({ type: "heap_total" }, memory.heapTotal);
+	processMemoryBytes.set({ type: "heap_used" }, memory.heapUsed);
+	processMemoryBytes.set({ type: "external" }, memory.external);
+	processUptimeSeconds.set({}, process.uptime());
+});
+
+metrics.collect(() => {
+	const pool = getPoolStats();
+
+	dbPoolMaxConnections.set({}, pool.max);
+	dbPoolOpenConnections.set({}, pool.open);
+	dbQueriesTotal.set({}, pool.queries);
+});
+
+interface RequestTiming {
+	startTime: number;
+	route?: string;
+	// Unhandled framework errors (e.g. NOT_FOUND) never update set.status
+	errorStatus?: number;
+}
+
+// Keyed by request so concurrent requests never share timing state
+const timings = new WeakMap<Request, RequestTiming>();
+
+const metricsIntegration = new Elysia({ name: "metrics-integration" })
+	.onRequest(({ request }) => {
+		timings.set(request, { startTime: performance.now() });
+	})
+	.onTransform({ as: "global" }, ({ request, route }) => {
+		const timing = timings.get(request);
+
+		if (timing && !timing.route) {
+			// Label by route template so /users/:id stays a single series
+			timing.route = route;
+			requestsInFlight.inc({ method: request.method, route });
+		}
+	})
+	.onError({ as: "global" }, ({ request, error }) => {
+		const timing = timings.get(request);
+
+		if (timing) {
+			timing.errorStatus = errorStatusCode(error);
+		}
+	})
+	.onAfterResponse({ as: "global" }, ({ request, set }) => {
+		const timing = timings.get(request);
+
+		if (!timing) {
+			return;
+		}
+
+		timings.delete(request);
+
+		const route = timing.route ?? UNMATCHED_ROUTE;
+		const status = toStatusCode(set.status);
+		const labels = {
+			method: request.method,
+			route,
+			status:
+				status === StatusCodes.OK && timing.errorStatus
+					? timing.errorStatus
+					: status,
+		};
+
+		if (timing.route) {
+			requestsInFlight.dec({ method: request.method, route });
+		}
+
+		requestsTotal.inc(labels);
+		requestDuration.observe(
+			labels,
+			(performance.now() - timing.startTime) / 1000,
+		);
+	});
+
+export default metricsIntegration;
@@ -1,8 +1,11 @@
 import { openapi } from "@elysiajs/openapi";
 import { fromTypes } from "@elysiajs/openapi/gen";
+import { z } from "zod";
 
 const databaseIntegration = openapi({
 	references: fromTypes("src/index.ts"),
+	// Routes may validate with zod, e.g. the CRUD routers' bodies
+	mapJsonSchema: { zod: z.toJSONSchema },
 });
 
 export default databaseIntegration;
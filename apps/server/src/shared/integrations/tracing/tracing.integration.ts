@@ -0,0 +1,115 @@
+import { Elysia } from "elysia";
+
+import { config, type TracingConfig } from "../../config";
+import { StatusCodes } from "../../const";
+import {
+	ConsoleSpanExporter,
+	FileSpanExporter,
+	OtlpHttpSpanExporter,
+	parseTraceparent,
+	type Span,
+	type SpanExporter,
+	tracer,
+} from "../../lib";
+import { getRequestId } from "../../middleware";
+import { errorStatusCode, toStatusCode } from "../../utils";
+
+function createExporter(config: TracingConfig): SpanExporter | undefined {
+	switch (config.exporter) {
+		case "console":
+			return new ConsoleSpanExporter();
+		case "file":
+			return new FileSpanExporter(config.filePath);
+		case "otlp":
+			return new OtlpHttpSpanExporter({
+				endpoint: config.otlpEndpoint,
+				serviceName: config.serviceName,
+			});
+		default:
+			return;
+	}
+}
+
+interface RequestSpan {
+	span: Span;
+	// Unhandled framework errors (e.g. NOT_FOUND) never update set.status
+	errorStatus?: number;
+}
+
+const requestSpans = new WeakMap<Request, RequestSpan>();
+
+function tracingHooks(config: TracingConfig) {
+	tracer.configure({
+		exporter: createExporter(config),
+		sampleRatio: config.sampleRatio,
+	});
+
+	return new Elysia({ name: "tracing-hooks" })
+		.onRequest(({ request }) => {
+			const url = new URL(request.url);
+			const span = tracer.startSpan(`${request.method} ${url.pathname}`, {
+				kind: "server",
+				// The active span may be left over from another request, as
+				// enterWith leaks into whatever the runtime runs next
+				root: true,
+				parent: parseTraceparent(
+					request.headers.get("traceparent"),
+					request.headers.get("tracestate"),
+				),
+				attributes: {
+					"http.request.method": request.method,
+					"url.path": url.pathname,
+					"request.id": getRequestId(request),
+					"user_agent.original": request.headers.get("user-agent") ?? "",
+				},
+			});
+
+			requestSpans.set(request, { span });
+			// Child spans (database, auth) started while handling this request
+			// pick the server span up as their parent
+			tracer.enter(span);
+		})
+		.onTransform({ as: "global" }, ({ request, route }) => {
+			requestSpans
+				.get(request)
+				?.span.updateName(`${request.method} ${route}`)
+				.setAttribute("http.route", route);
+		})
+		.onError({ as: "global" }, ({ request, error }) => {
+			const requestSpan = requestSpans.get(request);
+
+			if (requestSpan) {
+				requestSpan.errorStatus = errorStatusCode(error);
+				requestSpan.span.recordException(error);
+			}
+		})
+		.onAfterResponse({ as: "global" }, ({ request, set }) => {
+			const requestSpan = requestSpans.get(request);
+
+			if (!requestSpan) {
+				return;
+			}
+
+			requestSpans.delete(request);
+
+			const status = toStatusCode(set.status);
+			const statusCode =
+				status === StatusCodes.OK && requestSpan.errorStatus
+					? requestSpan.errorStatus
+					: status;
+
+			requestSpan.span.setAttribute("http.response.status_code", statusCode);
+
+			// Client errors are the caller's fault and do not fail the span
+			requestSpan.span.setStatus(
+				statusCode >= StatusCodes.INTERNAL_SERVER_ERROR ? "error" : "unset",
+			);
+			requestSpan.span.end();
+		});
+}
+
+const tracingIntegration = new Elysia({ name: "tracing-integration" })
+	.use(config)
+	.use(({ decorator: { config } }) => tracingHooks(config.tracing));
+
+export default tracingIntegration;
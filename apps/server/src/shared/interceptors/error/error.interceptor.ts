@@ -1,72 +1,99 @@
-import { Elysia } from "elysia";
+import { Elysia, type ValidationError as SchemaValidationError } from "elysia";
+import { ZodError } from "zod";
 
 import { StatusCodes } from "../../const";
 import {
-	ConflictError,
-	ForbiddenError,
-	NotFoundError,
-	UnauthorizedError,
+	BadRequestError,
+	fieldErrorsFromSchema,
+	findPostgresError,
+	HttpError,
+	translateDatabaseError,
 	ValidationError,
 } from "../../errors";
-import { Response } from "../../utils";
+import {
+	errorContextFromBindings,
+	errorReporter,
+	getRequestLogger,
+} from "../../lib";
+import { getRequestId } from "../../middleware";
+import { Problem } from "../../utils";
 
-const errorInterceptor = new Elysia({ name: "error-interceptor" }).onError(
-	({ error, set }) => {
-		console.error("Error occurred:", error);
+/**
+ * Errors that are not HttpErrors are Elysia's own or unexpected, and the
+ * latter never reveal their message
+ */
+function toHttpError(code: string, error: unknown): HttpError {
+	if (error instanceof HttpError) {
+		return error;
+	}
 
-		// Handle custom errors
-		if (error instanceof ValidationError) {
-			set.status = StatusCodes.UNPROCESSABLE_ENTITY;
-			return Response.unprocessableEntity(error.message);
-		}
+	if (findPostgresError(error)) {
+		return translateDatabaseError(error);
+	}
 
-		if (error instanceof NotFoundError) {
-			set.status = StatusCodes.NOT_FOUND;
-			return Response.notFound(error.message);
-		}
+	// A schema parsed in the handler rather than by route validation
+	if (error instanceof ZodError) {
+		return ValidationError.fromZod(error);
+	}
 
-		if (error instanceof UnauthorizedError) {
-			set.status = StatusCodes.UNAUTHORIZED;
-			return Response.unauthorized(error.message);
-		}
+	switch (code) {
+		case "NOT_FOUND":
+			return new HttpError("ROUTE_NOT_FOUND");
+		case "VALIDATION": {
+			const { type, all } = error as SchemaValidationError;
 
-		if (error instanceof ForbiddenError) {
-			set.status = StatusCodes.FORBIDDEN;
-			return Response.forbidden(error.message);
-		}
+			// The handler returned something its response schema rejects
+			if (type === "response") {
+				return new HttpError("INTERNAL_ERROR", undefined, { cause: error });
+			}
 
-		if (error instanceof ConflictError) {
-			set.status = StatusCodes.CONFLICT;
-			return Response.conflict(error.message);
+			return new HttpError("INVALID_REQUEST", undefined, {
+				details: { errors: fieldErrorsFromSchema(all) },
+			});
 		}
+		case "PARSE":
+			return new HttpError("INVALID_REQUEST");
+		case "INVALID_COOKIE_SIGNATURE":
+			return new BadRequestError("Invalid cookie signature");
+		default:
+			return new HttpError("INTERNAL_ERROR", undefined, { cause: error });
+	}
+}
 
-		// Handle Elysia validation errors
-		if (error instanceof Error && error.message.includes("Validation error")) {
-			set.status = StatusCodes.BAD_REQUEST;
-			return Response.badRequest("Invalid request data");
+const errorInterceptor = new Elysia({ name: "error-interceptor" }).onError(
+	{ as: "global" },
+	({ code, error, request, path, set }) => {
+		// A thrown status() is a response the route chose explicitly
+		if (typeof code === "number") {
+			return;
 		}
 
-		// Handle database errors
-		if (
-			error instanceof Error &&
-			(error.message.includes("database") || error.message.includes("SQL"))
-		) {
-			set.status = StatusCodes.INTERNAL_SERVER_ERROR;
-			return Response.err("Database error occurred");
-		}
+		const httpError = toHttpError(code, error);
+
+		// Client errors are expected and already show up in the access log
+		if (httpError.status >= StatusCodes.INTERNAL_SERVER_ERROR) {
+			const log = getRequestLogger(request);
 
-		// Handle network errors
-		if (
-			error instanceof Error &&
-			(error.message.includes("network") || error.message.includes("fetch"))
-		) {
-			set.status = StatusCodes.BAD_GATEWAY;
-			return Response.err("Network error occurred");
+			log.error("Unhandled error", { err: error });
+			errorReporter.capture(error, {
+				...errorContextFromBindings(log.getBindings()),
+				userAgent: request.headers.get("user-agent") ?? undefined,
+			});
 		}
 
-		// Default error handling
-		set.status = StatusCodes.INTERNAL_SERVER_ERROR;
-		return Response.err("An unexpected error occurred");
+		const problem = Problem.of(httpError.code, {
+			...(httpError.expose && {
+				detail: httpError.message,
+				...httpError.details,
+			}),
+			instance: path,
+			requestId: getRequestId(request),
+		});
+
+		set.status = httpError.status;
+		Object.assign(set.headers, httpError.headers);
+
+		return Problem.respond(problem, request.headers.get("accept"));
 	},
 );
 
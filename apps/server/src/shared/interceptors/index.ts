@@ -1 +1,7 @@
 export { default as errorInterceptor } from "./error";
+export {
+	default as resultInterceptor,
+	type ResultOptions,
+	type SuccessStatus,
+	type WithResultResponses,
+} from "./result";
@@ -0,0 +1,6 @@
+export {
+	default,
+	type ResultOptions,
+	type SuccessStatus,
+	type WithResultResponses,
+} from "./result.interceptor";
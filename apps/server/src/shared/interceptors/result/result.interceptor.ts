@@ -0,0 +1,108 @@
+import { Elysia } from "elysia";
+
+import { StatusCodes } from "../../const";
+import type { HttpError } from "../../errors";
+import { type ApiResponse, AsyncResult, Err, Ok, Response } from "../../utils";
+
+export type SuccessStatus =
+	| typeof StatusCodes.OK
+	| typeof StatusCodes.CREATED
+	| typeof StatusCodes.NO_CONTENT;
+
+export interface ResultOptions {
+	// Status of an Ok, defaults to 200
+	status?: SuccessStatus;
+	// Maps the route's Err values, returning undefined falls back to the
+	// error interceptor's mapping
+	mapError?: (error: unknown) => HttpError | undefined;
+}
+
+/**
+ * Turns a returned Result into the response: an Ok into `Response.ok` with
+ * the route's success status, an Err into a thrown error, so it gets the
+ * same problem details as any other error. Other values are left alone.
+ */
+async function resolveResult(
+	value: unknown,
+	set: { status?: number | string },
+	{ status = StatusCodes.OK, mapError }: ResultOptions,
+): Promise<unknown> {
+	const result = value instanceof AsyncResult ? await value : value;
+
+	if (result instanceof Ok) {
+		set.status = status;
+
+		// A 204 must have no body at all, an empty string is refused
+		return status === StatusCodes.NO_CONTENT
+			? new globalThis.Response(null, { status })
+			: Response.ok(result.value);
+	}
+
+	if (result instanceof Err) {
+		throw mapError?.(result.error) ?? result.error;
+	}
+
+	return;
+}
+
+// Options of the request's route, global hooks run before a macro's own
+const routeOptions = new WeakMap<Request, ResultOptions>();
+
+const resultInterceptor = new Elysia({ name: "result-interceptor" })
+	.macro({
+		result: (options: ResultOptions) => ({
+			beforeHandle({ request }) {
+				routeOptions.set(request, options);
+			},
+		}),
+	})
+	.onAfterHandle({ as: "global" }, ({ request, responseValue, set }) =>
+		resolveResult(responseValue, set, routeOptions.get(request) ?? {}),
+	);
+
+// The body an Ok or AsyncResult is sent as, other values are kept
+type ResultResponse<Value> = Value extends Ok<infer T>
+	? ApiResponse<T>
+	: Value extends Err<unknown>
+		? never
+		: Value extends AsyncResult<infer T, unknown>
+			? ApiResponse<T>
+			: Value;
+
+type MapResultRoutes<Routes> = {
+	[Key in keyof Routes]: Routes[Key] extends {
+		response: infer Responses extends Record<number, unknown>;
+	}
+		? Omit<Routes[Key], "response"> & {
+				response: {
+					[Status in keyof Responses]: ResultResponse<Responses[Status]>;
+				};
+			}
+		: MapResultRoutes<Routes[Key]>;
+};
+
+/**
+ * The app as clients see it, with returned Results typed as the responses
+ * they become, so eden infers `data` from the Ok type
+ */
+export type WithResultResponses<App> = App extends Elysia<
+	infer BasePath,
+	infer Singleton,
+	infer Definitions,
+	infer Metadata,
+	infer Routes,
+	infer Ephemeral,
+	infer Volatile
+>
+	? Elysia<
+			BasePath,
+			Singleton,
+			Definitions,
+			Metadata,
+			MapResultRoutes<Routes>,
+			Ephemeral,
+			Volatile
+		>
+	: never;
+
+export default resultInterceptor;
@@ -1,23 +1,70 @@
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
 import { bearer } from "better-auth/plugins";
+import { z } from "zod";
 
 import { db } from "../../db";
 import * as schema from "../../db/schema/auth";
-import { env } from "../../env";
+import { authConfig, corsConfig } from "../config";
+
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+const password = z
+	.string("Password is required")
+	.min(
+		MIN_PASSWORD_LENGTH,
+		`Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+	)
+	.max(
+		MAX_PASSWORD_LENGTH,
+		`Password must be at most ${MAX_PASSWORD_LENGTH} characters`,
+	);
+
+/**
+ * Bodies of the credential endpoints by path under /api/auth. better-auth
+ * stops at the first invalid field, these report all of them at once.
+ */
+export const credentialSchemas: Record<string, z.ZodType> = {
+	"/sign-in/email": z.object({
+		email: z.email("Invalid email address"),
+		password: z.string("Password is required").min(1, "Password is required"),
+	}),
+	"/sign-up/email": z.object({
+		name: z.string("Name is required").min(1, "Name is required"),
+		email: z.email("Invalid email address"),
+		password,
+	}),
+};
 
 const auth = betterAuth({
 	database: drizzleAdapter(db, {
 		provider: "sqlite",
 		schema,
 	}),
-	trustedOrigins: [env.CORS_ORIGIN],
+	// Older secrets are handled by resignAuthHeaders
+	secret: authConfig.secrets[0],
+	baseURL: authConfig.baseUrl,
+	trustedOrigins: [corsConfig.origin],
+	user: {
+		additionalFields: {
+			// Assigned by operators directly in the database, never on sign-up
+			role: {
+				type: "string",
+				required: false,
+				defaultValue: "user",
+				input: false,
+			},
+		},
+	},
 	emailAndPassword: {
 		enabled: true,
+		minPasswordLength: MIN_PASSWORD_LENGTH,
+		maxPasswordLength: MAX_PASSWORD_LENGTH,
 	},
 	advanced: {
 		defaultCookieAttributes: {
-			sameSite: "none",
+			sameSite: authConfig.cookieSameSite,
 			secure: true,
 			httpOnly: true,
 		},
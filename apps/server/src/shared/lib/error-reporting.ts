@@ -0,0 +1,519 @@
+import { createHash, randomUUID } from "node:crypto";
+import { appendFile } from "node:fs/promises";
+
+import { registerShutdownHook, ShutdownOrder } from "./lifecycle";
+import {
+	type LogFields,
+	type LogLevel,
+	onLog,
+	logger as rootLogger,
+} from "./logger";
+import { MemoryRateLimitStore } from "./rate-limit";
+
+/**
+ * Error reporting.
+ *
+ * Unexpected errors are captured with their stack, request context and the
+ * log lines that led up to them, grouped by fingerprint and handed to a
+ * pluggable sink. Client crashes reach the same pipeline through the ingest
+ * route.
+ */
+
+export type ErrorSource = "server" | "client";
+
+export interface Breadcrumb {
+	timestamp: string;
+	level: LogLevel;
+	message: string;
+	data?: LogFields;
+}
+
+export interface StackFrame {
+	function?: string;
+	filename: string;
+	lineno?: number;
+	colno?: number;
+	// False for dependencies and runtime internals
+	inApp: boolean;
+}
+
+export interface ErrorReport {
+	eventId: string;
+	timestamp: string;
+	source: ErrorSource;
+	// Reports with the same fingerprint are the same problem
+	fingerprint: string;
+	exception: {
+		type: string;
+		message: string;
+		stack?: string;
+		frames: StackFrame[];
+	};
+	request?: {
+		method?: string;
+		url?: string;
+		route?: string;
+		userAgent?: string;
+	};
+	requestId?: string;
+	traceId?: string;
+	userId?: string;
+	breadcrumbs: Breadcrumb[];
+	environment: string;
+	release: string;
+	tags: Record<string, string>;
+}
+
+export interface ErrorContext {
+	source?: ErrorSource;
+	requestId?: string;
+	traceId?: string;
+	userId?: string;
+	method?: string;
+	url?: string;
+	route?: string;
+	userAgent?: string;
+	// Overrides the computed fingerprint
+	fingerprint?: string;
+	tags?: Record<string, string>;
+}
+
+export interface ErrorSink {
+	send(report: ErrorReport): Promise<void>;
+}
+
+export interface ErrorReporterOptions {
+	sink?: ErrorSink;
+	environment: string;
+	release: string;
+	// Reports above this rate are dropped, per fingerprint a tenth of it
+	maxPerMinute?: number;
+	breadcrumbs?: number;
+}
+
+const BREADCRUMB_BUFFER_SIZE = 100;
+const FINGERPRINT_FRAMES = 5;
+const RATE_WINDOW_MS = 60_000;
+const MAX_MEMORY_REPORTS = 1000;
+
+// "    at handler (/app/src/index.ts:12:5)" or "    at /app/src/index.ts:12:5"
+const V8_FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+// "handler@https://app.example.com/_next/static/chunks/page.js:1:200"
+const GECKO_FRAME_PATTERN = /^\s*(.*?)@(.+?):(\d+):(\d+)$/;
+// Build hashes and cache busters change on every deploy
+const VOLATILE_FILENAME_PATTERN = /[?#].*$|[.-][0-9a-f]{8,}(?=\.)/g;
+// Ids and numbers in messages would split one problem into many
+const VOLATILE_MESSAGE_PATTERN =
+	/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\b[0-9a-f]{16,}\b|\d+/gi;
+
+const logger = rootLogger.child({ module: "error-reporting" });
+
+/**
+ * Writes reports to an array, for tests and local debugging
+ */
+export class MemoryErrorSink implements ErrorSink {
+	readonly reports: ErrorReport[] = [];
+
+	send(report: ErrorReport): Promise<void> {
+		this.reports.push(report);
+
+		if (this.reports.length > MAX_MEMORY_REPORTS) {
+			this.reports.shift();
+		}
+
+		return Promise.resolve();
+	}
+
+	clear(): void {
+		this.reports.length = 0;
+	}
+}
+
+/**
+ * Appends reports as JSON lines to a file
+ */
+export class FileErrorSink implements ErrorSink {
+	private readonly path: string;
+
+	constructor(path: string) {
+		this.path = path;
+	}
+
+	async send(report: ErrorReport): Promise<void> {
+		await appendFile(this.path, `${JSON.stringify(report)}\n`);
+	}
+}
+
+const SENTRY_LEVELS: Record<LogLevel, string> = {
+	trace: "debug",
+	debug: "debug",
+	info: "info",
+	warn: "warning",
+	error: "error",
+	fatal: "fatal",
+};
+
+function toUnixSeconds(timestamp: string): number {
+	return new Date(timestamp).getTime() / 1000;
+}
+
+/**
+ * Sends reports as envelopes to Sentry or any server speaking its protocol
+ */
+export class SentryErrorSink implements ErrorSink {
+	private readonly dsn: string;
+	private readonly url: string;
+	private readonly auth: string;
+
+	constructor(dsn: string) {
+		const { protocol, host, pathname, username } = new URL(dsn);
+		const segments = pathname.split("/").filter(Boolean);
+		const projectId = segments.pop();
+
+		if (!(username && projectId)) {
+			throw new Error(
+				"Sentry DSN must look like https://<key>@<host>/<project>",
+			);
+		}
+
+		const prefix = segments.length > 0 ? `/${segments.join("/")}` : "";
+
+		this.dsn = dsn;
+		this.url = `${protocol}//${host}${prefix}/api/${projectId}/envelope/`;
+		this.auth = `Sentry sentry_version=7, sentry_key=${username}, sentry_client=sunny-mono-server/1.0`;
+	}
+
+	async send(report: ErrorReport): Promise<void> {
+		const event = {
+			event_id: report.eventId,
+			timestamp: toUnixSeconds(report.timestamp),
+			platform: report.source === "client" ? "javascript" : "node",
+			level: "error",
+			environment: report.environment,
+			release: report.release,
+			fingerprint: [report.fingerprint],
+			exception: {
+				values: [
+					{
+						type: report.exception.type,
+						value: report.exception.message,
+						stacktrace: {
+							// Sentry lists the outermost frame first
+							frames: [...report.exception.frames].reverse().map((frame) => ({
+								function: frame.function,
+								filename: frame.filename,
+								lineno: frame.lineno,
+								colno: frame.colno,
+								in_app: frame.inApp,
+							})),
+						},
+					},
+				],
+			},
+			breadcrumbs: {
+				values: report.breadcrumbs.map((breadcrumb) => ({
+					timestamp: toUnixSeconds(breadcrumb.timestamp),
+					level: SENTRY_LEVELS[breadcrumb.level],
+					message: breadcrumb.message,
+					data: breadcrumb.data,
+				})),
+			},
+			...(report.request && {
+				request: {
+					method: report.request.method,
+					url: report.request.url,
+					headers: report.request.userAgent
+						? { "User-Agent": report.request.userAgent }
+						: undefined,
+				},
+			}),
+			...(report.userId && { user: { id: report.userId } }),
+			...(report.traceId && {
+				contexts: { trace: { trace_id: report.traceId } },
+			}),
+			tags: {
+				source: report.source,
+				...(report.requestId && { request_id: report.requestId }),
+				...(report.request?.route && { route: report.request.route }),
+				...report.tags,
+			},
+		};
+		const envelope = [
+			JSON.stringify({
+				event_id: report.eventId,
+				sent_at: new Date().toISOString(),
+				dsn: this.dsn,
+			}),
+			JSON.stringify({ type: "event" }),
+			JSON.stringify(event),
+		].join("\n");
+
+		const response = await fetch(this.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/x-sentry-envelope",
+				"X-Sentry-Auth": this.auth,
+			},
+			body: envelope,
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`Sentry envelope rejected with status ${response.status}`,
+			);
+		}
+	}
+}
+
+function isInApp(filename: string): boolean {
+	return !(
+		filename.includes("node_modules") ||
+		filename.startsWith("node:") ||
+		filename === "native"
+	);
+}
+
+/**
+ * Parse V8 and Firefox/Safari stack traces, innermost frame first
+ */
+export function parseStack(stack: string | undefined): StackFrame[] {
+	const frames: StackFrame[] = [];
+
+	for (const line of stack?.split("\n") ?? []) {
+		const match =
+			line.match(V8_FRAME_PATTERN) ?? line.match(GECKO_FRAME_PATTERN);
+
+		if (!match?.[2]) {
+			continue;
+		}
+
+		frames.push({
+			...(match[1] && { function: match[1] }),
+			filename: match[2],
+			lineno: Number(match[3]),
+			colno: Number(match[4]),
+			inApp: isInApp(match[2]),
+		});
+	}
+
+	return frames;
+}
+
+function toException(error: unknown): ErrorReport["exception"] {
+	if (error instanceof Error) {
+		return {
+			type: error.name,
+			message: error.message,
+			stack: error.stack,
+			frames: parseStack(error.stack),
+		};
+	}
+
+	if (error && typeof error === "object" && "message" in error) {
+		const { name, message, stack } = error as Record<string, unknown>;
+
+		return {
+			type: typeof name === "string" ? name : "Error",
+			message: String(message),
+			...(typeof stack === "string" && { stack }),
+			frames: parseStack(typeof stack === "string" ? stack : undefined),
+		};
+	}
+
+	return { type: "Error", message: String(error), frames: [] };
+}
+
+/**
+ * Group by error type and the functions it was thrown from, ignoring line
+ * numbers and build hashes so a problem keeps its group across deploys.
+ * Without in-app frames the message, minus ids and numbers, decides.
+ */
+export function fingerprintOf(exception: ErrorReport["exception"]): string {
+	const frames = exception.frames
+		.filter((frame) => frame.inApp)
+		.slice(0, FINGERPRINT_FRAMES)
+		.map(
+			(frame) =>
+				`${frame.function ?? "?"}@${frame.filename.replace(VOLATILE_FILENAME_PATTERN, "")}`,
+		);
+	const key =
+		frames.length > 0
+			? frames.join("\n")
+			: exception.message.replace(VOLATILE_MESSAGE_PATTERN, "<n>");
+
+	return createHash("sha256")
+		.update(`${exception.type}\n${key}`)
+		.digest("hex")
+		.slice(0, 32);
+}
+
+/**
+ * Pick the request context out of a request logger's bindings
+ */
+export function errorContextFromBindings(
+	bindings: Readonly<LogFields>,
+): ErrorContext {
+	const text = (value: unknown) =>
+		typeof value === "string" ? value : undefined;
+
+	return {
+		requestId: text(bindings.requestId),
+		traceId: text(bindings.traceId),
+		userId: text(bindings.userId),
+		method: text(bindings.method),
+		url: text(bindings.path),
+		route: text(bindings.route),
+	};
+}
+
+class ErrorReporter {
+	private sink: ErrorSink | undefined;
+	private environment = "development";
+	private release = "0.0.0";
+	private maxPerMinute = 60;
+	private breadcrumbLimit = 20;
+	private breadcrumbs: Breadcrumb[] = [];
+	private readonly limiter = new MemoryRateLimitStore();
+	private readonly pending = new Set<Promise<void>>();
+
+	constructor() {
+		onLog(({ time, level, msg, fields }) => {
+			// Stacks are in the report itself, keep breadcrumbs small
+			const { err: _err, ...data } = fields;
+
+			this.breadcrumbs.push({ timestamp: time, level, message: msg, data });
+
+			if (this.breadcrumbs.length > BREADCRUMB_BUFFER_SIZE) {
+				this.breadcrumbs.shift();
+			}
+		});
+	}
+
+	/**
+	 * Set the sink and report metadata. Without a sink nothing is captured.
+	 */
+	configure(options: ErrorReporterOptions): void {
+		this.sink = options.sink;
+		this.environment = options.environment;
+		this.release = options.release;
+		this.maxPerMinute = options.maxPerMinute ?? this.maxPerMinute;
+		this.breadcrumbLimit = options.breadcrumbs ?? this.breadcrumbLimit;
+	}
+
+	/**
+	 * Report an error to the sink without waiting for it to be delivered.
+	 * Resolves with the report, or undefined when there is no sink or the
+	 * report was dropped by the rate limit.
+	 */
+	async capture(
+		error: unknown,
+		context: ErrorContext = {},
+	): Promise<ErrorReport | undefined> {
+		const sink = this.sink;
+
+		if (!sink) {
+			return;
+		}
+
+		const exception = toException(error);
+		const fingerprint = context.fingerprint ?? fingerprintOf(exception);
+
+		if (!(await this.acquire(fingerprint))) {
+			return;
+		}
+
+		const report: ErrorReport = {
+			eventId: randomUUID().replace(/-/g, ""),
+			timestamp: new Date().toISOString(),
+			source: context.source ?? "server",
+			fingerprint,
+			exception,
+			...((context.method || context.url || context.route) && {
+				request: {
+					method: context.method,
+					url: context.url,
+					route: context.route,
+					userAgent: context.userAgent,
+				},
+			}),
+			requestId: context.requestId,
+			traceId: context.traceId,
+			userId: context.userId,
+			breadcrumbs: this.recentBreadcrumbs(context.requestId),
+			environment: this.environment,
+			release: this.release,
+			tags: context.tags ?? {},
+		};
+		const delivery = sink.send(report).catch((sendError: unknown) => {
+			logger.error("Failed to send error report", {
+				err: sendError,
+				eventId: report.eventId,
+			});
+		});
+
+		this.pending.add(delivery);
+		delivery.finally(() => this.pending.delete(delivery));
+
+		return report;
+	}
+
+	/**
+	 * Wait for every report that is still being delivered
+	 */
+	async flush(): Promise<void> {
+		await Promise.all(this.pending);
+	}
+
+	// One error storm must neither flood the sink nor starve other errors
+	private async acquire(fingerprint: string): Promise<boolean> {
+		const perFingerprint = Math.max(1, Math.floor(this.maxPerMinute / 10));
+		const { count } = await this.limiter.increment(
+			`fingerprint:${fingerprint}`,
+			RATE_WINDOW_MS,
+		);
+
+		if (count > perFingerprint) {
+			if (count === perFingerprint + 1) {
+				logger.warn("Error reports rate limited", {
+					fingerprint,
+					perFingerprint,
+				});
+			}
+
+			return false;
+		}
+
+		const total = await this.limiter.increment("total", RATE_WINDOW_MS);
+
+		if (total.count > this.maxPerMinute) {
+			if (total.count === this.maxPerMinute + 1) {
+				logger.warn("Error reports rate limited", {
+					maxPerMinute: this.maxPerMinute,
+				});
+			}
+
+			return false;
+		}
+
+		return true;
+	}
+
+	// The request's own log lines, or the latest lines outside a request
+	private recentBreadcrumbs(requestId: string | undefined): Breadcrumb[] {
+		const breadcrumbs = requestId
+			? this.breadcrumbs.filter(({ data }) => data?.requestId === requestId)
+			: this.breadcrumbs;
+
+		return this.breadcrumbLimit > 0
+			? breadcrumbs.slice(-this.breadcrumbLimit)
+			: [];
+	}
+}
+
+export const errorReporter = new ErrorReporter();
+
+registerShutdownHook({
+	name: "error-reporting",
+	order: ShutdownOrder.TELEMETRY,
+	run: () => errorReporter.flush(),
+});
@@ -0,0 +1,176 @@
+import { sql } from "drizzle-orm";
+
+import { isShuttingDown } from "./lifecycle";
+import { db } from "../../db";
+import { session } from "../../db/schema";
+
+export type HealthStatus = "healthy" | "degraded" | "unhealthy";
+
+export type HealthProbe = "live" | "ready" | "startup";
+
+export interface HealthCheck {
+	name: string;
+	// Probes this check takes part in. Liveness should stay dependency-free.
+	probes?: HealthProbe[];
+	timeoutMs?: number;
+	// A failing non-critical check only degrades the overall status.
+	critical?: boolean;
+	// Resolve with "degraded" to report a soft failure, throw for a hard one.
+	check: () => Promise<HealthStatus | undefined> | HealthStatus | undefined;
+}
+
+export interface HealthCheckResult {
+	name: string;
+	status: HealthStatus;
+	latencyMs: number;
+	timeoutMs: number;
+	critical: boolean;
+	error?: string;
+}
+
+export interface HealthReport {
+	probe: HealthProbe;
+	status: HealthStatus;
+	checks: HealthCheckResult[];
+}
+
+const DEFAULT_TIMEOUT_MS = 2000;
+const DEFAULT_PROBES: HealthProbe[] = ["ready", "startup"];
+
+const checks = new Map<string, HealthCheck>();
+let started = false;
+
+class HealthCheckTimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`Timed out after ${timeoutMs}ms`);
+		this.name = "HealthCheckTimeoutError";
+	}
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(
+			() => reject(new HealthCheckTimeoutError(timeoutMs)),
+			timeoutMs,
+		);
+	});
+
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+	const timeoutMs = check.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const critical = check.critical ?? true;
+	const startTime = performance.now();
+
+	try {
+		const status = await withTimeout(
+			Promise.resolve().then(check.check),
+			timeoutMs,
+		);
+
+		return {
+			name: check.name,
+			status: status ?? "healthy",
+			latencyMs: Math.round(performance.now() - startTime),
+			timeoutMs,
+			critical,
+		};
+	} catch (error) {
+		return {
+			name: check.name,
+			status: "unhealthy",
+			latencyMs: Math.round(performance.now() - startTime),
+			timeoutMs,
+			critical,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+function aggregateStatus(results: HealthCheckResult[]): HealthStatus {
+	let status: HealthStatus = "healthy";
+
+	for (const result of results) {
+		if (result.status === "unhealthy" && result.critical) {
+			return "unhealthy";
+		}
+
+		if (result.status !== "healthy") {
+			status = "degraded";
+		}
+	}
+
+	return status;
+}
+
+/**
+ * Register a dependency check. Registering a name twice replaces the
+ * previous check, so modules can safely re-register on hot reload.
+ */
+export function registerHealthCheck(check: HealthCheck): void {
+	checks.set(check.name, check);
+}
+
+export function unregisterHealthCheck(name: string): void {
+	checks.delete(name);
+}
+
+/**
+ * Run every check registered for the given probe concurrently.
+ *
+ * The startup probe latches: once it has passed, it keeps reporting
+ * healthy without re-running its checks.
+ */
+export async function runHealthChecks(
+	probe: HealthProbe,
+): Promise<HealthReport> {
+	if (probe === "startup" && started) {
+		return { probe, status: "healthy", checks: [] };
+	}
+
+	const selected = [...checks.values()].filter((check) =>
+		(check.probes ?? DEFAULT_PROBES).includes(probe),
+	);
+	const results = await Promise.all(selected.map(runCheck));
+	const status = aggregateStatus(results);
+
+	if (probe === "startup" && status !== "unhealthy") {
+		started = true;
+	}
+
+	return { probe, status, checks: results };
+}
+
+// Fails readiness as soon as shutdown starts, so traffic drains elsewhere
+registerHealthCheck({
+	name: "shutdown",
+	probes: ["ready"],
+	check: (): HealthStatus => {
+		if (isShuttingDown()) {
+			throw new Error("Server is shutting down");
+		}
+
+		return "healthy";
+	},
+});
+
+registerHealthCheck({
+	name: "database",
+	check: async (): Promise<HealthStatus> => {
+		await db.execute(sql`select 1`);
+		return "healthy";
+	},
+});
+
+// Every authenticated request reads a session, so a missing or unreadable
+// auth table fails here rather than on the first sign-in
+registerHealthCheck({
+	name: "auth",
+	check: async (): Promise<HealthStatus> => {
+		await db.select({ id: session.id }).from(session).limit(1);
+		return "healthy";
+	},
+});
@@ -1 +1,12 @@
-export { default as auth } from "./auth";
+export { credentialSchemas, default as auth } from "./auth";
+export * from "./error-reporting";
+export * from "./health";
+export * from "./lifecycle";
+export * from "./list-query";
+export * from "./logger";
+export * from "./metrics";
+export * from "./pagination";
+export * from "./rate-limit";
+export * from "./secret-rotation";
+export * from "./security";
+export * from "./tracing";
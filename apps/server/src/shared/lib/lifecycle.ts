@@ -0,0 +1,203 @@
+import type { AnyElysia } from "elysia";
+
+import { logger as rootLogger } from "./logger";
+
+/**
+ * Server lifecycle.
+ *
+ * On SIGTERM/SIGINT the readiness probe starts failing, in-flight requests
+ * get until a deadline to finish, then shutdown hooks release resources in
+ * order. All three steps share one time budget, so the process exits before
+ * the platform kills it. A second signal exits immediately.
+ */
+
+export interface ShutdownHook {
+	name: string;
+	// Hooks run in ascending order, equal orders in registration order
+	order?: number;
+	timeoutMs?: number;
+	run: () => Promise<unknown> | unknown;
+}
+
+export const ShutdownOrder = {
+	// Stop producing work: job workers, websockets, schedulers
+	WORKERS: 0,
+	// Close connections the workers and requests relied on
+	CONNECTIONS: 100,
+	// Flush telemetry last so it covers the shutdown itself
+	TELEMETRY: 200,
+} as const;
+
+export interface ServerOptions {
+	port: number;
+	// Keep serving this long after readiness fails, so load balancers stop
+	// routing new requests before the listener closes
+	shutdownDelayMs: number;
+	// Budget for the whole shutdown, delay and hooks included
+	shutdownTimeoutMs: number;
+}
+
+const DEFAULT_HOOK_TIMEOUT_MS = 5000;
+// Taken off the drain deadline so hooks still run when requests hang
+const HOOKS_RESERVE_MS = DEFAULT_HOOK_TIMEOUT_MS;
+// Process managers may deliver one stop request to the whole process group
+const DUPLICATE_SIGNAL_WINDOW_MS = 1000;
+
+const logger = rootLogger.child({ module: "lifecycle" });
+const hooks = new Map<string, ShutdownHook>();
+let shuttingDown = false;
+
+export function isShuttingDown(): boolean {
+	return shuttingDown;
+}
+
+/**
+ * Register a resource to release on shutdown. Registering a name twice
+ * replaces the previous hook.
+ */
+export function registerShutdownHook(hook: ShutdownHook): void {
+	hooks.set(hook.name, hook);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolves true if the promise settled before the deadline
+ */
+async function settlesWithin(
+	promise: Promise<unknown>,
+	timeoutMs: number,
+): Promise<boolean> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const deadline = new Promise<false>((resolve) => {
+		timer = setTimeout(() => resolve(false), timeoutMs);
+	});
+
+	try {
+		return await Promise.race([promise.then(() => true), deadline]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Run every shutdown hook in order before the deadline and return how many
+ * failed
+ */
+async function runShutdownHooks(deadline: number): Promise<number> {
+	const ordered = [...hooks.values()].sort(
+		(a, b) => (a.order ?? 0) - (b.order ?? 0),
+	);
+	let failures = 0;
+
+	for (const hook of ordered) {
+		const startTime = performance.now();
+		const timeoutMs = Math.max(
+			0,
+			Math.min(hook.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS, deadline - startTime),
+		);
+
+		try {
+			const finished = await settlesWithin(
+				Promise.resolve().then(hook.run),
+				timeoutMs,
+			);
+
+			if (!finished) {
+				failures += 1;
+				logger.warn("Shutdown hook timed out", { hook: hook.name, timeoutMs });
+				continue;
+			}
+
+			logger.debug("Shutdown hook finished", {
+				hook: hook.name,
+				durationMs: Math.round(performance.now() - startTime),
+			});
+		} catch (error) {
+			failures += 1;
+			logger.error("Shutdown hook failed", { hook: hook.name, err: error });
+		}
+	}
+
+	return failures;
+}
+
+async function shutdown(
+	app: AnyElysia,
+	options: ServerOptions,
+	signal: string,
+): Promise<number> {
+	const server = app.server;
+	const deadline = performance.now() + options.shutdownTimeoutMs;
+	const delayMs = Math.min(options.shutdownDelayMs, options.shutdownTimeoutMs);
+	const drainTimeoutMs = Math.max(
+		0,
+		options.shutdownTimeoutMs - delayMs - HOOKS_RESERVE_MS,
+	);
+
+	shuttingDown = true;
+	logger.info("Shutting down", {
+		signal,
+		inFlight: server?.pendingRequests ?? 0,
+	});
+
+	await sleep(delayMs);
+
+	// Stops accepting connections and resolves once in-flight requests finish
+	const drained = await settlesWithin(app.stop(), drainTimeoutMs);
+
+	if (!drained) {
+		logger.warn("Drain deadline reached, closing remaining connections", {
+			inFlight: server?.pendingRequests ?? 0,
+			drainTimeoutMs,
+		});
+		await server?.stop(true);
+	}
+
+	// afterResponse hooks (access logs, metrics, spans) run in setImmediate,
+	// so let those of the last requests finish before hooks flush anything
+	await new Promise((resolve) => setImmediate(resolve));
+
+	const failures = await runShutdownHooks(deadline);
+
+	logger.info("Shutdown complete", { failedHooks: failures });
+
+	return failures > 0 ? 1 : 0;
+}
+
+/**
+ * Listen on the given port and shut down gracefully on SIGTERM/SIGINT
+ */
+export function startServer(app: AnyElysia, options: ServerOptions): void {
+	let pending: Promise<void> | undefined;
+	let firstSignalAt = 0;
+
+	const onSignal = (signal: NodeJS.Signals) => {
+		if (pending && Date.now() - firstSignalAt < DUPLICATE_SIGNAL_WINDOW_MS) {
+			return;
+		}
+
+		if (pending) {
+			logger.warn("Received another signal, exiting immediately", { signal });
+			process.exit(1);
+		}
+
+		firstSignalAt = Date.now();
+		pending = shutdown(app, options, signal).then(
+			(code) => process.exit(code),
+			(error: unknown) => {
+				logger.fatal("Shutdown failed", { err: error });
+				process.exit(1);
+			},
+		);
+	};
+
+	process.on("SIGTERM", onSignal);
+	process.on("SIGINT", onSignal);
+
+	app.listen(options.port, (server) => {
+		logger.info("Server listening", { url: server.url.href });
+	});
+}
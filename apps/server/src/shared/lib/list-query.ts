@@ -0,0 +1,377 @@
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	gt,
+	gte,
+	ilike,
+	inArray,
+	isNotNull,
+	isNull,
+	lt,
+	lte,
+	ne,
+	type SQL,
+} from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
+import { type FieldError, ValidationError } from "../errors";
+import { err, ok, type Result } from "../utils";
+
+/**
+ * Filtering, sorting and page/limit pagination of list routes, parsed from
+ * the query string:
+ *
+ * `?filter[email][contains]=doe&filter[role]=admin&sort=-createdAt,name&page=2&limit=50`
+ *
+ * Only the fields and operators a resource allows are accepted, everything
+ * else is a ValidationError listing each offending parameter. Values are
+ * bound as parameters, never interpolated into SQL.
+ */
+
+export const FILTER_OPERATORS = [
+	"eq",
+	"ne",
+	"gt",
+	"gte",
+	"lt",
+	"lte",
+	"contains",
+	"startsWith",
+	"in",
+	"isNull",
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export interface ListField {
+	column: PgColumn;
+	// Operators the field can be filtered with, none by default
+	filter?: readonly FilterOperator[];
+	// Whether the field can be sorted by
+	sort?: boolean;
+}
+
+export interface ListQueryConfig<Field extends string> {
+	fields: Record<Field, ListField>;
+	// Order without a sort parameter, e.g. "-createdAt"
+	defaultSort?: string;
+	// Unique column ordered by last, so pages never overlap on ties
+	tiebreaker?: PgColumn;
+	defaultLimit?: number;
+	maxLimit?: number;
+}
+
+export interface ListQuery {
+	where: SQL | undefined;
+	orderBy: SQL[];
+	page: number;
+	limit: number;
+	offset: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const LIST_SEPARATOR = ",";
+
+// filter[field] or filter[field][operator]
+const FILTER_KEY_PATTERN = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/;
+// Characters LIKE treats as wildcards, and its escape character
+const LIKE_SPECIAL_CHARACTERS = /[\\%_]/g;
+
+// Columns LIKE works on, others fail the query, e.g. uuid or timestamp
+const TEXT_COLUMN_TYPES = new Set(["PgText", "PgVarchar", "PgChar"]);
+
+function isOperator(value: string): value is FilterOperator {
+	return (FILTER_OPERATORS as readonly string[]).includes(value);
+}
+
+// A query string value as the column's type, undefined if it is not one
+function coerce(column: PgColumn, value: string): unknown {
+	switch (column.dataType) {
+		case "number": {
+			const number = Number(value);
+			return value.trim() !== "" && Number.isFinite(number)
+				? number
+				: undefined;
+		}
+		case "boolean":
+			return value === "true" ? true : value === "false" ? false : undefined;
+		case "date": {
+			const date = new Date(value);
+			return Number.isNaN(date.getTime()) ? undefined : date;
+		}
+		default:
+			return value;
+	}
+}
+
+function supports(column: PgColumn, operator: FilterOperator): boolean {
+	return (
+		(operator !== "contains" && operator !== "startsWith") ||
+		TEXT_COLUMN_TYPES.has(column.columnType)
+	);
+}
+
+// Every value of each parameter, a repeated one has several
+function valuesOf(
+	query: Record<string, unknown> | URLSearchParams,
+): Map<string, string[]> {
+	const entries =
+		query instanceof URLSearchParams
+			? [...query]
+			: Object.entries(query).flatMap(([key, value]) =>
+					(Array.isArray(value) ? value : [value]).map(
+						(item) => [key, String(item)] as const,
+					),
+				);
+	const values = new Map<string, string[]>();
+
+	for (const [key, value] of entries) {
+		values.set(key, [...(values.get(key) ?? []), value]);
+	}
+
+	return values;
+}
+
+// Field error path of a parameter, filter.email.eq for filter[email]
+function pathOf(key: string): string {
+	const match = key.match(FILTER_KEY_PATTERN);
+
+	return match?.[1] ? `filter.${match[1]}.${match[2] ?? "eq"}` : key;
+}
+
+function escapeLike(value: string): string {
+	return value.replace(LIKE_SPECIAL_CHARACTERS, "\\$&");
+}
+
+function compileFilter(
+	column: PgColumn,
+	operator: FilterOperator,
+	raw: string,
+): SQL | undefined {
+	if (operator === "isNull") {
+		if (raw !== "true" && raw !== "false") {
+			return;
+		}
+
+		return raw === "true" ? isNull(column) : isNotNull(column);
+	}
+
+	if (operator === "contains" || operator === "startsWith") {
+		const pattern = escapeLike(raw);
+
+		return ilike(
+			column,
+			operator === "contains" ? `%${pattern}%` : `${pattern}%`,
+		);
+	}
+
+	if (operator === "in") {
+		const values = raw
+			.split(LIST_SEPARATOR)
+			.map((item) => coerce(column, item));
+
+		return values.length > 0 && !values.includes(undefined)
+			? inArray(column, values)
+			: undefined;
+	}
+
+	const value = coerce(column, raw);
+
+	if (value === undefined) {
+		return;
+	}
+
+	const compare = { eq, ne, gt, gte, lt, lte }[operator];
+
+	return compare(column, value);
+}
+
+function positiveInteger(
+	value: unknown,
+	fallback: number,
+	max = Number.MAX_SAFE_INTEGER,
+): number | undefined {
+	if (value === undefined || value === "") {
+		return fallback;
+	}
+
+	const number = Number(value);
+
+	return Number.isInteger(number) && number >= 1 && number <= max
+		? number
+		: undefined;
+}
+
+/**
+ * Defines what a resource's list route accepts, e.g.
+ *
+ * ```ts
+ * const userList = defineListQuery({
+ *   fields: {
+ *     email: { column: user.email, filter: ["eq", "contains"] },
+ *     createdAt: { column: user.createdAt, filter: ["gte", "lte"], sort: true },
+ *   },
+ *   defaultSort: "-createdAt",
+ *   tiebreaker: user.id,
+ * });
+ *
+ * const list = userList.parse(new URL(request.url).searchParams).unwrap();
+ * const rows = await db.select().from(user).where(list.where)
+ *   .orderBy(...list.orderBy).limit(list.limit).offset(list.offset);
+ * const [{ total }] = await db.select({ total: count() }).from(user).where(list.where);
+ *
+ * return Response.paginate(rows, list.page, list.limit, total);
+ * ```
+ */
+export function defineListQuery<Field extends string>({
+	fields,
+	defaultSort,
+	tiebreaker,
+	defaultLimit = DEFAULT_LIMIT,
+	maxLimit = MAX_LIMIT,
+}: ListQueryConfig<Field>) {
+	const fieldOf = (name: string): ListField | undefined =>
+		Object.hasOwn(fields, name) ? fields[name as Field] : undefined;
+
+	/**
+	 * Parses the filters, sort and pagination of a route's query. Pass the
+	 * URL's search params rather than the parsed query, which keeps only the
+	 * last of a repeated parameter, so repeated ones are refused.
+	 */
+	const parse = (
+		query: Record<string, unknown> | URLSearchParams,
+	): Result<ListQuery, ValidationError> => {
+		const errors: FieldError[] = [];
+		const conditions: SQL[] = [];
+		const orderBy: SQL[] = [];
+		const parameters = new Map<string, string>();
+
+		for (const [key, values] of valuesOf(query)) {
+			if (values.length > 1) {
+				errors.push({
+					field: pathOf(key),
+					code: "invalid_value",
+					message: `${key} is given more than once`,
+				});
+				continue;
+			}
+
+			parameters.set(key, values[0] ?? "");
+		}
+
+		for (const [key, raw] of parameters) {
+			const match = key.match(FILTER_KEY_PATTERN);
+
+			if (!match?.[1]) {
+				continue;
+			}
+
+			const [, name, operator = "eq"] = match;
+			const field = fieldOf(name);
+			const path = pathOf(key);
+
+			if (!field?.filter?.length) {
+				errors.push({
+					field: path,
+					code: "invalid_key",
+					message: `Cannot filter by ${name}`,
+				});
+				continue;
+			}
+
+			if (!(isOperator(operator) && field.filter.includes(operator))) {
+				errors.push({
+					field: path,
+					code: "invalid_value",
+					message: `Filter ${name} supports ${field.filter.join(", ")}`,
+				});
+				continue;
+			}
+
+			if (!supports(field.column, operator)) {
+				errors.push({
+					field: path,
+					code: "invalid_value",
+					message: `Filter ${name} is not text, ${operator} needs text`,
+				});
+				continue;
+			}
+
+			const condition = compileFilter(field.column, operator, raw);
+
+			if (!condition) {
+				errors.push({
+					field: path,
+					code: "invalid_type",
+					message: `Invalid value for ${name}`,
+				});
+				continue;
+			}
+
+			conditions.push(condition);
+		}
+
+		const sort = parameters.get("sort") || defaultSort;
+
+		for (const term of sort?.split(LIST_SEPARATOR) ?? []) {
+			const descending = term.startsWith("-");
+			const name = descending ? term.slice(1) : term;
+			const field = fieldOf(name);
+
+			if (!field?.sort) {
+				errors.push({
+					field: "sort",
+					code: "invalid_value",
+					message: `Cannot sort by ${name}`,
+				});
+				continue;
+			}
+
+			orderBy.push(descending ? desc(field.column) : asc(field.column));
+		}
+
+		if (tiebreaker) {
+			orderBy.push(asc(tiebreaker));
+		}
+
+		const page = positiveInteger(parameters.get("page"), 1);
+		const limit = positiveInteger(
+			parameters.get("limit"),
+			defaultLimit,
+			maxLimit,
+		);
+
+		if (page === undefined) {
+			errors.push({
+				field: "page",
+				code: "invalid_value",
+				message: "Page must be a positive integer",
+			});
+		}
+
+		if (limit === undefined) {
+			errors.push({
+				field: "limit",
+				code: "invalid_value",
+				message: `Limit must be an integer from 1 to ${maxLimit}`,
+			});
+		}
+
+		if (errors.length > 0 || page === undefined || limit === undefined) {
+			return err(new ValidationError("Invalid list query", errors));
+		}
+
+		return ok({
+			where: and(...conditions),
+			orderBy,
+			page,
+			limit,
+			offset: (page - 1) * limit,
+		});
+	};
+
+	return { fields, parse };
+}
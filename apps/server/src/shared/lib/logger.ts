@@ -0,0 +1,445 @@
+/**
+ * Structured logger.
+ *
+ * Emits one JSON object per line in production and a readable single-line
+ * format in development. Sensitive fields are redacted before anything is
+ * written, so credentials never reach the log pipeline.
+ */
+
+export const LOG_LEVELS = [
+	"trace",
+	"debug",
+	"info",
+	"warn",
+	"error",
+	"fatal",
+] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFormat = "json" | "pretty";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_VALUES: Record<LogLevel, number> = {
+	trace: 10,
+	debug: 20,
+	info: 30,
+	warn: 40,
+	error: 50,
+	fatal: 60,
+};
+
+const REDACTED = "[REDACTED]";
+const DEFAULT_OVERRIDE_TTL_MS = 15 * 60 * 1000;
+const MAX_DEPTH = 8;
+
+// Matches passwords, secrets, tokens, credentials, private and API keys,
+// auth/cookie headers and sessions anywhere in a key, e.g. password_hash
+const SENSITIVE_KEY_PATTERN =
+	/pass(word|wd)|pwd|secret|token|authorization|cookie|credential|private[-_]?key|api[-_]?key|jwt|session/i;
+// Too short to match inside other words, "otp" is in "footprint"
+const SENSITIVE_KEY_WORDS = new Set(["pass", "otp"]);
+// Splits camelCase, snake_case and kebab-case keys into words
+const KEY_WORD_BOUNDARY = /[^a-zA-Z0-9]+|(?<=[a-z0-9])(?=[A-Z])/;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi;
+// Credentials inlined as key=value, e.g. in a URL or an upstream's message
+const INLINE_CREDENTIAL_PATTERN =
+	/\b([\w-]*(?:pass(?:word|wd)?|pwd|secret|token|key|credential|jwt|otp|session|signature|sig)(?:[-_]?id)?)=[^\s&"',;]+/gi;
+
+const PRETTY_COLORS: Record<LogLevel, string> = {
+	trace: "\x1b[90m",
+	debug: "\x1b[36m",
+	info: "\x1b[32m",
+	warn: "\x1b[33m",
+	error: "\x1b[31m",
+	fatal: "\x1b[35m",
+};
+const RESET_COLOR = "\x1b[0m";
+
+export function isLogLevel(value: string): value is LogLevel {
+	return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function serializeError(error: Error, depth: number): LogFields {
+	return {
+		...(redact({ ...error }, depth + 1) as LogFields),
+		name: error.name,
+		message: redactString(error.message),
+		...(error.stack && { stack: redactString(error.stack) }),
+		...(error.cause !== undefined && { cause: redact(error.cause, depth + 1) }),
+	};
+}
+
+function redactString(value: string): string {
+	return value
+		.replace(BEARER_PATTERN, `$1 ${REDACTED}`)
+		.replace(INLINE_CREDENTIAL_PATTERN, `$1=${REDACTED}`);
+}
+
+function isSensitiveKey(key: string): boolean {
+	return (
+		SENSITIVE_KEY_PATTERN.test(key) ||
+		key
+			.split(KEY_WORD_BOUNDARY)
+			.some((word) => SENSITIVE_KEY_WORDS.has(word.toLowerCase()))
+	);
+}
+
+/**
+ * Deep-copy a value, replacing sensitive fields and inline credentials
+ */
+export function redact(value: unknown, depth = 0): unknown {
+	if (typeof value === "string") {
+		return redactString(value);
+	}
+
+	if (value === null || typeof value !== "object") {
+		return typeof value === "bigint" ? value.toString() : value;
+	}
+
+	if (depth >= MAX_DEPTH) {
+		return "[Truncated]";
+	}
+
+	if (value instanceof Error) {
+		return serializeError(value, depth);
+	}
+
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+
+	if (value instanceof Headers) {
+		return redact(Object.fromEntries(value.entries()), depth + 1);
+	}
+
+	if (Array.isArray(value)) {
+		return value.map((item) => redact(item, depth + 1));
+	}
+
+	const result: LogFields = {};
+
+	for (const [key, entry] of Object.entries(value)) {
+		result[key] = isSensitiveKey(key) ? REDACTED : redact(entry, depth + 1);
+	}
+
+	return result;
+}
+
+function formatPrettyValue(value: unknown): string {
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Mutable settings shared by a logger and all of its children
+ */
+export interface LoggerSettings {
+	level: LogLevel;
+	format: LogFormat;
+	// Level overrides keyed by a logger's `module` binding
+	modules: Record<string, LogLevel>;
+	// Level overrides keyed by request path prefix, longest prefix wins
+	routes: Record<string, LogLevel>;
+	// Fraction of successful access logs that are written
+	accessLogSampleRate: number;
+}
+
+function matchesPrefix(path: string, prefix: string): boolean {
+	return (
+		path === prefix ||
+		path.startsWith(prefix.endsWith("/") ? prefix : `${prefix}/`)
+	);
+}
+
+export interface LogRecord {
+	time: string;
+	level: LogLevel;
+	msg: string;
+	// Bindings and fields, already redacted
+	fields: LogFields;
+}
+
+export type LogListener = (record: LogRecord) => void;
+
+const listeners = new Set<LogListener>();
+
+/**
+ * Receive every line that is written, e.g. to keep breadcrumbs. Returns a
+ * function that removes the listener.
+ */
+export function onLog(listener: LogListener): () => void {
+	listeners.add(listener);
+
+	return () => listeners.delete(listener);
+}
+
+export class Logger {
+	private readonly bindings: LogFields;
+	private readonly root: LoggerSettings;
+
+	constructor(settings: LoggerSettings, bindings: LogFields = {}) {
+		this.root = settings;
+		this.bindings = bindings;
+	}
+
+	/**
+	 * Create a logger that adds the given fields to every line
+	 */
+	child(bindings: LogFields): Logger {
+		return new Logger(this.root, { ...this.bindings, ...bindings });
+	}
+
+	/**
+	 * Fields added to every line, e.g. the requestId of a request logger
+	 */
+	getBindings(): Readonly<LogFields> {
+		return this.bindings;
+	}
+
+	isLevelEnabled(level: LogLevel): boolean {
+		return LEVEL_VALUES[level] >= LEVEL_VALUES[this.effectiveLevel()];
+	}
+
+	trace(message: string, fields?: LogFields): void {
+		this.write("trace", message, fields);
+	}
+
+	debug(message: string, fields?: LogFields): void {
+		this.write("debug", message, fields);
+	}
+
+	info(message: string, fields?: LogFields): void {
+		this.write("info", message, fields);
+	}
+
+	warn(message: string, fields?: LogFields): void {
+		this.write("warn", message, fields);
+	}
+
+	error(message: string, fields?: LogFields): void {
+		this.write("error", message, fields);
+	}
+
+	fatal(message: string, fields?: LogFields): void {
+		this.write("fatal", message, fields);
+	}
+
+	private effectiveLevel(): LogLevel {
+		const { module, path } = this.bindings;
+		const moduleLevel =
+			typeof module === "string" ? this.root.modules[module] : undefined;
+
+		if (moduleLevel) {
+			return moduleLevel;
+		}
+
+		if (typeof path === "string") {
+			let match: string | undefined;
+
+			for (const prefix of Object.keys(this.root.routes)) {
+				if (
+					matchesPrefix(path, prefix) &&
+					(!match || prefix.length > match.length)
+				) {
+					match = prefix;
+				}
+			}
+
+			if (match) {
+				return this.root.routes[match] ?? this.root.level;
+			}
+		}
+
+		return this.root.level;
+	}
+
+	private write(level: LogLevel, message: string, fields?: LogFields): void {
+		if (!this.isLevelEnabled(level)) {
+			return;
+		}
+
+		const entry = redact({ ...this.bindings, ...fields }) as LogFields;
+		const time = new Date().toISOString();
+		const msg = redactString(message);
+		const line =
+			this.root.format === "json"
+				? JSON.stringify({ time, level, msg, ...entry })
+				: this.formatPretty(level, msg, entry);
+
+		for (const listener of listeners) {
+			listener({ time, level, msg, fields: entry });
+		}
+
+		if (LEVEL_VALUES[level] >= LEVEL_VALUES.error) {
+			console.error(line);
+		} else {
+			console.log(line);
+		}
+	}
+
+	private formatPretty(
+		level: LogLevel,
+		message: string,
+		entry: LogFields,
+	): string {
+		const time = new Date().toISOString().slice(11, 23);
+		const label = `${PRETTY_COLORS[level]}${level.toUpperCase().padEnd(5)}${RESET_COLOR}`;
+		const { err, ...rest } = entry;
+		let trailer = "";
+
+		// Print stacks on their own lines instead of as an escaped field
+		if (err && typeof err === "object" && "stack" in err) {
+			const { stack, ...errFields } = err as LogFields;
+			trailer = `\n${String(stack)}`;
+			rest.err = errFields;
+		} else if (err !== undefined) {
+			rest.err = err;
+		}
+
+		const fields = Object.entries(rest)
+			.map(([key, value]) => `${key}=${formatPrettyValue(value)}`)
+			.join(" ");
+
+		return `${time} ${label} ${message}${fields ? ` ${fields}` : ""}${trailer}`;
+	}
+}
+
+const settings: LoggerSettings = {
+	level: "info",
+	format: process.env.NODE_ENV === "production" ? "json" : "pretty",
+	modules: {},
+	routes: {},
+	accessLogSampleRate: 1,
+};
+
+// Startup settings that runtime overrides revert to
+let baseline: LoggerSettings = { ...settings };
+let revertTimer: ReturnType<typeof setTimeout> | undefined;
+let expiresAt: Date | undefined;
+
+export const logger = new Logger(settings);
+
+/**
+ * Apply startup settings to the root logger and every child
+ */
+export function configureLogger(options: Partial<LoggerSettings>): void {
+	Object.assign(settings, options);
+	baseline = { ...settings };
+}
+
+export interface LogLevelUpdate {
+	level?: LogLevel;
+	// A null level removes the override
+	modules?: Record<string, LogLevel | null>;
+	routes?: Record<string, LogLevel | null>;
+	accessLogSampleRate?: number;
+	// Time until every runtime change reverts, defaults to 15 minutes
+	ttlMs?: number;
+}
+
+export interface LogLevelState {
+	level: LogLevel;
+	modules: Record<string, LogLevel>;
+	routes: Record<string, LogLevel>;
+	accessLogSampleRate: number;
+	expiresAt: string | null;
+}
+
+function applyOverrides(
+	target: Record<string, LogLevel>,
+	overrides: Record<string, LogLevel | null> = {},
+): Record<string, LogLevel> {
+	const result = { ...target };
+
+	for (const [key, level] of Object.entries(overrides)) {
+		if (level) {
+			result[key] = level;
+		} else {
+			delete result[key];
+		}
+	}
+
+	return result;
+}
+
+export function getLogLevels(): LogLevelState {
+	return {
+		level: settings.level,
+		modules: { ...settings.modules },
+		routes: { ...settings.routes },
+		accessLogSampleRate: settings.accessLogSampleRate,
+		expiresAt: expiresAt?.toISOString() ?? null,
+	};
+}
+
+/**
+ * Restore the startup level, overrides and sampling rate
+ */
+export function resetLogLevels(): LogLevelState {
+	clearTimeout(revertTimer);
+	revertTimer = undefined;
+	expiresAt = undefined;
+	Object.assign(settings, baseline);
+
+	return getLogLevels();
+}
+
+/**
+ * Change levels and sampling at runtime. Changes stack on top of earlier
+ * ones and all of them revert together once the latest TTL elapses.
+ */
+export function updateLogLevels(update: LogLevelUpdate): LogLevelState {
+	const ttlMs = update.ttlMs ?? DEFAULT_OVERRIDE_TTL_MS;
+
+	Object.assign(settings, {
+		level: update.level ?? settings.level,
+		modules: applyOverrides(settings.modules, update.modules),
+		routes: applyOverrides(settings.routes, update.routes),
+		accessLogSampleRate:
+			update.accessLogSampleRate ?? settings.accessLogSampleRate,
+	});
+
+	clearTimeout(revertTimer);
+	expiresAt = new Date(Date.now() + ttlMs);
+	revertTimer = setTimeout(() => {
+		resetLogLevels();
+		logger.info("Runtime log level overrides expired");
+	}, ttlMs);
+	revertTimer.unref?.();
+
+	return getLogLevels();
+}
+
+/**
+ * Whether a successful request's access log should be written
+ */
+export function isAccessLogSampled(): boolean {
+	return (
+		settings.accessLogSampleRate >= 1 ||
+		Math.random() < settings.accessLogSampleRate
+	);
+}
+
+// Loggers bound to an in-flight request, for hooks that only see the request
+const requestLoggers = new WeakMap<Request, Logger>();
+
+/**
+ * Returns the logger bound to a request, or the root logger
+ */
+export function getRequestLogger(request: Request): Logger {
+	return requestLoggers.get(request) ?? logger;
+}
+
+/**
+ * Add fields to a request's logger (e.g. the route once matched, the user
+ * once authenticated) and return the updated logger
+ */
+export function bindRequestLogger(
+	request: Request,
+	bindings: LogFields,
+): Logger {
+	const log = getRequestLogger(request).child(bindings);
+	requestLoggers.set(request, log);
+	return log;
+}
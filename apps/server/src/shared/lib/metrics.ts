@@ -0,0 +1,261 @@
+/**
+ * Minimal Prometheus-compatible metrics registry.
+ *
+ * Supports counters, gauges and histograms with labels, plus collectors
+ * that refresh gauges right before each scrape.
+ */
+
+export type Labels = Record<string, string | number>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface MetricOptions {
+	name: string;
+	help: string;
+}
+
+interface HistogramOptions extends MetricOptions {
+	buckets?: number[];
+}
+
+interface HistogramSeries {
+	labels: Labels;
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+const DEFAULT_BUCKETS = [
+	0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function labelKey(labels: Labels): string {
+	return Object.keys(labels)
+		.sort()
+		.map((key) => `${key}=${labels[key]}`)
+		.join(",");
+}
+
+function escapeLabelValue(value: string | number): string {
+	return String(value)
+		.replace(/\\/g, "\\\\")
+		.replace(/\n/g, "\\n")
+		.replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+	const entries = Object.entries(labels);
+
+	if (entries.length === 0) {
+		return "";
+	}
+
+	const formatted = entries
+		.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+		.join(",");
+
+	return `{${formatted}}`;
+}
+
+function formatValue(value: number): string {
+	if (value === Number.POSITIVE_INFINITY) {
+		return "+Inf";
+	}
+
+	if (value === Number.NEGATIVE_INFINITY) {
+		return "-Inf";
+	}
+
+	return String(value);
+}
+
+abstract class Metric {
+	readonly name: string;
+	readonly help: string;
+	abstract readonly type: MetricType;
+
+	constructor({ name, help }: MetricOptions) {
+		this.name = name;
+		this.help = help;
+	}
+
+	abstract samples(): string[];
+
+	render(): string {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...this.samples(),
+		].join("\n");
+	}
+}
+
+export class Counter extends Metric {
+	readonly type = "counter";
+	private readonly values = new Map<
+		string,
+		{ labels: Labels; value: number }
+	>();
+
+	inc(labels: Labels = {}, value = 1): void {
+		const key = labelKey(labels);
+		const current = this.values.get(key);
+
+		if (current) {
+			current.value += value;
+			return;
+		}
+
+		this.values.set(key, { labels, value });
+	}
+
+	/**
+	 * Mirror a monotonic total kept elsewhere (e.g. by a driver) in a collector
+	 */
+	set(labels: Labels, value: number): void {
+		this.values.set(labelKey(labels), { labels, value });
+	}
+
+	samples(): string[] {
+		return [...this.values.values()].map(
+			({ labels, value }) =>
+				`${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+		);
+	}
+}
+
+export class Gauge extends Metric {
+	readonly type = "gauge";
+	private readonly values = new Map<
+		string,
+		{ labels: Labels; value: number }
+	>();
+
+	set(labels: Labels, value: number): void {
+		this.values.set(labelKey(labels), { labels, value });
+	}
+
+	inc(labels: Labels = {}, value = 1): void {
+		const key = labelKey(labels);
+		const current = this.values.get(key);
+
+		this.values.set(key, { labels, value: (current?.value ?? 0) + value });
+	}
+
+	dec(labels: Labels = {}, value = 1): void {
+		this.inc(labels, -value);
+	}
+
+	samples(): string[] {
+		return [...this.values.values()].map(
+			({ labels, value }) =>
+				`${this.name}${formatLabels(labels)} ${formatValue(value)}`,
+		);
+	}
+}
+
+export class Histogram extends Metric {
+	readonly type = "histogram";
+	private readonly bounds: number[];
+	private readonly series = new Map<string, HistogramSeries>();
+
+	constructor({ buckets = DEFAULT_BUCKETS, ...options }: HistogramOptions) {
+		super(options);
+		this.bounds = [...buckets].sort((a, b) => a - b);
+	}
+
+	observe(labels: Labels, value: number): void {
+		const key = labelKey(labels);
+		let series = this.series.get(key);
+
+		if (!series) {
+			series = {
+				labels,
+				buckets: this.bounds.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			this.series.set(key, series);
+		}
+
+		for (const [index, bound] of this.bounds.entries()) {
+			if (value <= bound) {
+				series.buckets[index] = (series.buckets[index] ?? 0) + 1;
+			}
+		}
+
+		series.sum += value;
+		series.count += 1;
+	}
+
+	samples(): string[] {
+		const lines: string[] = [];
+
+		for (const { labels, buckets, sum, count } of this.series.values()) {
+			for (const [index, bound] of this.bounds.entries()) {
+				lines.push(
+					`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${buckets[index] ?? 0}`,
+				);
+			}
+
+			lines.push(
+				`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+				`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+				`${this.name}_count${formatLabels(labels)} ${count}`,
+			);
+		}
+
+		return lines;
+	}
+}
+
+export class MetricsRegistry {
+	private readonly metrics = new Map<string, Metric>();
+	private readonly collectors: Array<() => void> = [];
+
+	private register<T extends Metric>(metric: T): T {
+		const existing = this.metrics.get(metric.name);
+
+		if (existing) {
+			return existing as T;
+		}
+
+		this.metrics.set(metric.name, metric);
+		return metric;
+	}
+
+	counter(options: MetricOptions): Counter {
+		return this.register(new Counter(options));
+	}
+
+	gauge(options: MetricOptions): Gauge {
+		return this.register(new Gauge(options));
+	}
+
+	histogram(options: HistogramOptions): Histogram {
+		return this.register(new Histogram(options));
+	}
+
+	/**
+	 * Register a callback that refreshes gauges right before each scrape
+	 */
+	collect(collector: () => void): void {
+		this.collectors.push(collector);
+	}
+
+	/**
+	 * Render every metric in the Prometheus text exposition format
+	 */
+	render(): string {
+		for (const collector of this.collectors) {
+			collector();
+		}
+
+		return `${[...this.metrics.values()].map((metric) => metric.render()).join("\n")}\n`;
+	}
+}
+
+export const metrics = new MetricsRegistry();
+
+export const PROMETHEUS_CONTENT_TYPE =
+	"text/plain; version=0.0.4; charset=utf-8";
@@ -0,0 +1,249 @@
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	getTableColumns,
+	gt,
+	lt,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import type { PgColumn, PgSelect } from "drizzle-orm/pg-core";
+import { t } from "elysia";
+
+import {
+	type HttpError,
+	translateDatabaseError,
+	ValidationError,
+} from "../errors";
+import {
+	AsyncResult,
+	type CursorPaginatedResponse,
+	err,
+	ok,
+	Response,
+	type Result,
+} from "../utils";
+
+/**
+ * Keyset (cursor) pagination for Drizzle queries.
+ *
+ * A page continues from the last row seen instead of skipping an offset, so
+ * there is no COUNT(*) and rows inserted while paging are neither skipped
+ * nor repeated. Rows are ordered by a sort column, with a unique and
+ * time-ordered ID (UUID v7) breaking ties.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+type CursorDirection = "next" | "prev";
+
+interface Cursor {
+	direction: CursorDirection;
+	// Sort and ID values of the row the page continues from
+	keys: unknown[];
+}
+
+export interface CursorPaginationOptions {
+	// Unique tiebreaker, e.g. a UUID v7 primary key
+	id: PgColumn;
+	// Column to sort by, the ID itself by default
+	sort?: PgColumn;
+	// Newest first by default
+	order?: "asc" | "desc";
+	// Filters of the query, a dynamic query's own where would be replaced
+	where?: SQL;
+	// nextCursor or prevCursor of an earlier page, none for the first page
+	cursor?: string;
+	limit?: number;
+}
+
+/**
+ * Query string of a cursor paginated route
+ */
+export const cursorPaginationQuery = t.Object({
+	cursor: t.Optional(t.String()),
+	limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_LIMIT })),
+});
+
+function encodeCursor(direction: CursorDirection, keys: unknown[]): string {
+	return Buffer.from(JSON.stringify([direction, ...keys])).toString(
+		"base64url",
+	);
+}
+
+function invalidCursor(): ValidationError {
+	return new ValidationError(undefined, [
+		{ field: "cursor", code: "invalid_format", message: "Invalid cursor" },
+	]);
+}
+
+function decodeCursor(
+	cursor: string,
+	columns: PgColumn[],
+): Result<Cursor, ValidationError> {
+	let decoded: unknown;
+
+	try {
+		decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+	} catch {
+		return err(invalidCursor());
+	}
+
+	if (
+		!Array.isArray(decoded) ||
+		decoded.length !== columns.length + 1 ||
+		(decoded[0] !== "next" && decoded[0] !== "prev")
+	) {
+		return err(invalidCursor());
+	}
+
+	const [direction, ...values] = decoded as [CursorDirection, ...unknown[]];
+	// Dates went through JSON as ISO strings
+	const keys = values.map((value, index) =>
+		columns[index]?.dataType === "date" ? new Date(String(value)) : value,
+	);
+
+	if (keys.some((key) => key instanceof Date && Number.isNaN(key.getTime()))) {
+		return err(invalidCursor());
+	}
+
+	return ok({ direction, keys });
+}
+
+// `db.select().from(table)` keys rows by the table's property names
+function rowKey(column: PgColumn): string {
+	const columns = getTableColumns(column.table);
+	const key = Object.keys(columns).find((name) => columns[name] === column);
+
+	if (!key) {
+		throw new Error(`Column ${column.name} is not a column of its table`);
+	}
+
+	return key;
+}
+
+/**
+ * What a column is ordered and compared by. Timestamps are stored in
+ * microseconds but read into millisecond Dates, so they are truncated to
+ * what a cursor can hold, or rows of the same millisecond would be skipped
+ * or repeated at page boundaries.
+ */
+function keyOf(column: PgColumn): SQL {
+	return column.dataType === "date"
+		? sql`date_trunc('milliseconds', ${column})`
+		: sql`${column}`;
+}
+
+// Rows past the cursor row in (sort, id) order, greater or less
+function keysetCondition(
+	[sort, id]: PgColumn[],
+	[sortKey, idKey]: unknown[],
+	greater: boolean,
+): SQL | undefined {
+	const compare = greater ? gt : lt;
+
+	if (!sort) {
+		return;
+	}
+
+	// Bound through the column, which maps a Date as it stores it
+	const sortValue = sql.param(sortKey, sort);
+
+	if (!id) {
+		return compare(keyOf(sort), sortValue);
+	}
+
+	return or(
+		compare(keyOf(sort), sortValue),
+		and(eq(keyOf(sort), sortValue), compare(id, idKey)),
+	);
+}
+
+/**
+ * One page of a query and the cursors of its neighbours, e.g.
+ *
+ * ```ts
+ * paginateByCursor(db.select().from(notification).$dynamic(), {
+ *   id: notification.id,
+ *   sort: notification.createdAt,
+ *   where: eq(notification.userId, user.id),
+ *   ...query,
+ * })
+ * ```
+ *
+ * The query must select the sort and ID columns under their table's names.
+ * An unreadable cursor is a ValidationError, a failed query is translated.
+ */
+export function paginateByCursor<Query extends PgSelect>(
+	query: Query,
+	{
+		id,
+		sort = id,
+		order = "desc",
+		where,
+		cursor,
+		limit: requestedLimit = DEFAULT_LIMIT,
+	}: CursorPaginationOptions,
+): AsyncResult<
+	CursorPaginatedResponse<Query["_"]["result"][number]>,
+	HttpError
+> {
+	const limit = Math.min(Math.max(Math.trunc(requestedLimit), 1), MAX_LIMIT);
+	const columns = sort === id ? [id] : [sort, id];
+	const decoded =
+		cursor === undefined ? ok(undefined) : decodeCursor(cursor, columns);
+
+	if (decoded.isErr()) {
+		return AsyncResult.err(decoded.error);
+	}
+
+	const position = decoded.value;
+	const backward = position?.direction === "prev";
+	// A previous page is read in reverse and flipped back
+	const greater = (order === "asc") !== backward;
+	const direction = greater ? asc : desc;
+
+	return AsyncResult.fromPromise(
+		query
+			.where(
+				and(
+					where,
+					position && keysetCondition(columns, position.keys, greater),
+				),
+			)
+			.orderBy(...columns.map((column) => direction(keyOf(column))))
+			// One extra row tells whether there is more in this direction
+			.limit(limit + 1),
+		translateDatabaseError,
+	).map((rows) => {
+		const hasMore = rows.length > limit;
+		const page = rows.slice(0, limit);
+
+		if (backward) {
+			page.reverse();
+		}
+
+		const keys = columns.map(rowKey);
+		const cursorAt = (
+			cursorDirection: CursorDirection,
+			row: Record<string, unknown> | undefined,
+		) =>
+			row
+				? encodeCursor(
+						cursorDirection,
+						keys.map((key) => row[key]),
+					)
+				: null;
+
+		return Response.cursorPaginate(page, {
+			limit,
+			nextCursor: backward || hasMore ? cursorAt("next", page.at(-1)) : null,
+			prevCursor:
+				position && (!backward || hasMore) ? cursorAt("prev", page[0]) : null,
+		});
+	});
+}
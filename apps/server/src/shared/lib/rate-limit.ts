@@ -0,0 +1,121 @@
+import { lt, sql } from "drizzle-orm";
+
+import { db } from "../../db";
+import { rateLimit } from "../../db/schema";
+
+/**
+ * Fixed-window rate limit counters.
+ *
+ * The memory store only limits a single instance; the Postgres store keeps
+ * one counter row per key so limits hold across every instance.
+ */
+
+export interface RateLimitHit {
+	// Requests counted in the current window, including this one
+	count: number;
+	// Epoch milliseconds at which the window resets
+	resetAt: number;
+}
+
+export interface RateLimitStore {
+	increment(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+const DURATION_PATTERN = /^(\d+)(ms|s|m|h|d)$/;
+const DURATION_UNITS_MS = {
+	ms: 1,
+	s: 1000,
+	m: 60_000,
+	h: 3_600_000,
+	d: 86_400_000,
+} as const;
+const SWEEP_INTERVAL_MS = 60_000;
+
+export type Duration = number | `${number}${keyof typeof DURATION_UNITS_MS}`;
+
+/**
+ * Convert "30s", "1m", "1h" or a number of milliseconds to milliseconds
+ */
+export function parseDuration(duration: Duration): number {
+	if (typeof duration === "number") {
+		return duration;
+	}
+
+	const match = duration.match(DURATION_PATTERN);
+
+	if (!match?.[1] || !match[2]) {
+		throw new Error(`Invalid duration "${duration}"`);
+	}
+
+	return (
+		Number(match[1]) *
+		DURATION_UNITS_MS[match[2] as keyof typeof DURATION_UNITS_MS]
+	);
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+	private readonly hits = new Map<string, RateLimitHit>();
+
+	constructor() {
+		setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref?.();
+	}
+
+	increment(key: string, windowMs: number): Promise<RateLimitHit> {
+		const now = Date.now();
+		const current = this.hits.get(key);
+
+		if (current && current.resetAt > now) {
+			current.count += 1;
+			return Promise.resolve({ ...current });
+		}
+
+		const hit = { count: 1, resetAt: now + windowMs };
+		this.hits.set(key, hit);
+
+		return Promise.resolve({ ...hit });
+	}
+
+	private sweep(): void {
+		const now = Date.now();
+
+		for (const [key, hit] of this.hits) {
+			if (hit.resetAt <= now) {
+				this.hits.delete(key);
+			}
+		}
+	}
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+	constructor() {
+		setInterval(() => {
+			db.delete(rateLimit)
+				.where(lt(rateLimit.resetAt, new Date()))
+				.catch(() => {
+					// Expired rows are reset on their next hit anyway
+				});
+		}, SWEEP_INTERVAL_MS).unref?.();
+	}
+
+	async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+		const resetAt = new Date(Date.now() + windowMs);
+
+		// One atomic upsert, so concurrent instances never lose a hit
+		const [row] = await db
+			.insert(rateLimit)
+			.values({ key, count: 1, resetAt })
+			.onConflictDoUpdate({
+				target: rateLimit.key,
+				set: {
+					count: sql`case when ${rateLimit.resetAt} <= now() then 1 else ${rateLimit.count} + 1 end`,
+					resetAt: sql`case when ${rateLimit.resetAt} <= now() then excluded.reset_at else ${rateLimit.resetAt} end`,
+				},
+			})
+			.returning({ count: rateLimit.count, resetAt: rateLimit.resetAt });
+
+		return {
+			count: row?.count ?? 1,
+			resetAt: row?.resetAt.getTime() ?? resetAt.getTime(),
+		};
+	}
+}
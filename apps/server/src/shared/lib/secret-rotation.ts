@@ -0,0 +1,162 @@
+import { authConfig } from "../config";
+
+/**
+ * Auth secret rotation.
+ *
+ * better-auth signs cookies and bearer tokens with a single secret. During a
+ * rotation, credentials signed with a retired secret are re-signed with the
+ * current one before better-auth sees them, so existing sessions survive.
+ */
+
+const HMAC = { name: "HMAC", hash: "SHA-256" } as const;
+
+// value.signature, where the signature is a padded base64 HMAC-SHA256
+const SIGNED_COOKIE_PATTERN = /^(.+)\.([A-Za-z0-9+/]{43}=)$/;
+// Bearer tokens carry the same signature with its padding stripped
+const SIGNED_TOKEN_PATTERN = /^(.+)\.([A-Za-z0-9+/_-]{43})=?$/;
+
+const keys = new Map<string, Promise<CryptoKey>>();
+
+function importKey(secret: string): Promise<CryptoKey> {
+	let key = keys.get(secret);
+
+	if (!key) {
+		key = crypto.subtle.importKey(
+			"raw",
+			new TextEncoder().encode(secret),
+			HMAC,
+			false,
+			["sign", "verify"],
+		);
+		keys.set(secret, key);
+	}
+
+	return key;
+}
+
+async function sign(value: string, secret: string): Promise<string> {
+	const signature = await crypto.subtle.sign(
+		HMAC,
+		await importKey(secret),
+		new TextEncoder().encode(value),
+	);
+
+	return Buffer.from(signature).toString("base64");
+}
+
+async function verify(
+	value: string,
+	signature: string,
+	secret: string,
+): Promise<boolean> {
+	return crypto.subtle.verify(
+		HMAC,
+		await importKey(secret),
+		Buffer.from(signature, "base64"),
+		new TextEncoder().encode(value),
+	);
+}
+
+async function signedWithRetiredSecret(
+	value: string,
+	signature: string,
+	[current, ...retired]: readonly string[],
+): Promise<boolean> {
+	if (!current || (await verify(value, signature, current))) {
+		return false;
+	}
+
+	for (const secret of retired) {
+		if (await verify(value, signature, secret)) {
+			return true;
+		}
+	}
+
+	return false;
+}
+
+function decode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+async function resignCookies(
+	header: string,
+	secrets: readonly string[],
+): Promise<string | undefined> {
+	let changed = false;
+	const cookies = await Promise.all(
+		header.split(/;\s*/).map(async (cookie) => {
+			const separator = cookie.indexOf("=");
+			const match = decode(cookie.slice(separator + 1)).match(
+				SIGNED_COOKIE_PATTERN,
+			);
+
+			if (
+				separator < 1 ||
+				!match?.[1] ||
+				!match[2] ||
+				!(await signedWithRetiredSecret(match[1], match[2], secrets))
+			) {
+				return cookie;
+			}
+
+			changed = true;
+
+			const [current = ""] = secrets;
+			const value = `${match[1]}.${await sign(match[1], current)}`;
+
+			return `${cookie.slice(0, separator)}=${encodeURIComponent(value)}`;
+		}),
+	);
+
+	return changed ? cookies.join("; ") : undefined;
+}
+
+/**
+ * Returns headers whose signed credentials all verify with the current
+ * secret, or the original headers when nothing had to change
+ */
+export async function resignAuthHeaders(
+	headers: Headers,
+	secrets: readonly string[] = authConfig.secrets,
+): Promise<Headers> {
+	if (secrets.length < 2) {
+		return headers;
+	}
+
+	const cookie = headers.get("cookie");
+	const authorization = headers.get("authorization");
+	const resignedCookie = cookie && (await resignCookies(cookie, secrets));
+	const token = authorization?.startsWith("Bearer ")
+		? decode(authorization.slice("Bearer ".length)).match(SIGNED_TOKEN_PATTERN)
+		: undefined;
+	const retiredToken =
+		token?.[1] &&
+		token[2] &&
+		(await signedWithRetiredSecret(
+			token[1],
+			token[2].replace(/-/g, "+").replace(/_/g, "/"),
+			secrets,
+		));
+
+	if (!(resignedCookie || retiredToken)) {
+		return headers;
+	}
+
+	const result = new Headers(headers);
+
+	if (resignedCookie) {
+		result.set("cookie", resignedCookie);
+	}
+
+	if (retiredToken && token?.[1]) {
+		// The bearer plugin signs unsigned tokens with the current secret
+		result.set("authorization", `Bearer ${token[1]}`);
+	}
+
+	return result;
+}
@@ -0,0 +1,104 @@
+import { logger as rootLogger } from "./logger";
+import {
+	authConfig,
+	coreConfig,
+	corsConfig,
+	metricsConfig,
+	weakSecretReason,
+} from "../config";
+
+export type SecuritySeverity = "warning" | "critical";
+
+export interface SecurityFinding {
+	setting: string;
+	severity: SecuritySeverity;
+	message: string;
+}
+
+const logger = rootLogger.child({ module: "security" });
+
+function isHttps(url: string | undefined): boolean {
+	return url?.startsWith("https://") ?? false;
+}
+
+/**
+ * Settings that are unsafe for the current environment. Weak secrets are
+ * refused outright in production by the auth config, so they only show up
+ * here elsewhere.
+ */
+export function auditSecurity(): SecurityFinding[] {
+	const findings: SecurityFinding[] = [];
+	const production = coreConfig.nodeEnv === "production";
+
+	if (corsConfig.origin === "*") {
+		findings.push({
+			setting: "CORS_ORIGIN",
+			severity: corsConfig.credentials ? "critical" : "warning",
+			message: corsConfig.credentials
+				? "wildcard origin with credentials lets any site make authenticated requests"
+				: "wildcard origin lets any site call the API",
+		});
+	} else if (production && !isHttps(corsConfig.origin)) {
+		findings.push({
+			setting: "CORS_ORIGIN",
+			severity: "warning",
+			message: "trusted origin is not served over HTTPS",
+		});
+	}
+
+	if (
+		authConfig.cookieSameSite === "none" &&
+		(authConfig.baseUrl ? !isHttps(authConfig.baseUrl) : production)
+	) {
+		findings.push({
+			setting: "AUTH_COOKIE_SAMESITE",
+			severity: production ? "critical" : "warning",
+			message: authConfig.baseUrl
+				? "SameSite=None cookies need HTTPS, but BETTER_AUTH_URL is not HTTPS"
+				: "SameSite=None cookies need HTTPS, set BETTER_AUTH_URL to the public HTTPS URL",
+		});
+	}
+
+	for (const [index, secret] of authConfig.secrets.entries()) {
+		const reason = weakSecretReason(secret);
+
+		if (reason) {
+			findings.push({
+				setting: "BETTER_AUTH_SECRET",
+				severity: "warning",
+				message: `secret #${index + 1} ${reason} and would be refused in production`,
+			});
+		}
+	}
+
+	if (production && metricsConfig.enabled && !metricsConfig.token) {
+		findings.push({
+			setting: "METRICS_ENABLED",
+			severity: "warning",
+			message: "/metrics is served without a token",
+		});
+	}
+
+	return findings;
+}
+
+/**
+ * Log every finding of the security audit, once at startup
+ */
+export function logSecurityReport(): SecurityFinding[] {
+	const findings = auditSecurity();
+
+	if (findings.length === 0) {
+		logger.info("Security report: no unsafe settings found");
+		return findings;
+	}
+
+	for (const { setting, severity, message } of findings) {
+		logger[severity === "critical" ? "error" : "warn"](
+			`Unsafe setting ${setting}: ${message}`,
+			{ setting, severity },
+		);
+	}
+
+	return findings;
+}
@@ -0,0 +1,460 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile } from "node:fs/promises";
+
+import { registerShutdownHook, ShutdownOrder } from "./lifecycle";
+import { logger as rootLogger } from "./logger";
+
+/**
+ * Lightweight tracer following the OpenTelemetry data model.
+ *
+ * Spans are propagated with W3C Trace Context (`traceparent`/`tracestate`)
+ * and handed in batches to a pluggable exporter.
+ */
+
+export type SpanKind = "internal" | "server" | "client";
+
+export type SpanStatusCode = "unset" | "ok" | "error";
+
+export type AttributeValue = string | number | boolean;
+
+export interface SpanContext {
+	traceId: string;
+	spanId: string;
+	sampled: boolean;
+	traceState?: string;
+}
+
+export interface SpanEvent {
+	name: string;
+	timeUnixNano: string;
+	attributes: Record<string, AttributeValue>;
+}
+
+export interface SpanData {
+	name: string;
+	kind: SpanKind;
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	traceState?: string;
+	startTimeUnixNano: string;
+	endTimeUnixNano: string;
+	durationMs: number;
+	attributes: Record<string, AttributeValue>;
+	events: SpanEvent[];
+	status: { code: SpanStatusCode; message?: string };
+}
+
+export interface SpanExporter {
+	export(spans: SpanData[]): Promise<void>;
+}
+
+export interface SpanOptions {
+	kind?: SpanKind;
+	// Explicit parent, e.g. extracted from an incoming traceparent header
+	parent?: SpanContext;
+	// Start a new trace when there is no explicit parent instead of
+	// continuing the active span, e.g. for an incoming request
+	root?: boolean;
+	attributes?: Record<string, AttributeValue>;
+}
+
+// Versions after 00 may append fields, which are ignored
+const TRACEPARENT_PATTERN =
+	/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+const SAMPLED_FLAG = 0x01;
+const TRACE_ID_BYTES = 16;
+const SPAN_ID_BYTES = 8;
+const MAX_TRACESTATE_LENGTH = 512;
+const BATCH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 5000;
+
+const logger = rootLogger.child({ module: "tracing" });
+
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+// Epoch-anchored high resolution clock, in nanoseconds
+function nowUnixNano(): bigint {
+	const nowMs = performance.timeOrigin + performance.now();
+	return BigInt(Math.round(nowMs * 1e6));
+}
+
+/**
+ * Parse a W3C `traceparent` header, returning undefined when it is invalid
+ */
+export function parseTraceparent(
+	header: string | null | undefined,
+	traceState?: string | null,
+): SpanContext | undefined {
+	// Uppercase hex is invalid, not normalized
+	const match = header?.trim().match(TRACEPARENT_PATTERN);
+
+	if (!match) {
+		return;
+	}
+
+	const [, version, traceId, spanId, flags, extra] = match;
+
+	if (
+		version === "ff" ||
+		(version === "00" && extra !== undefined) ||
+		!traceId ||
+		!spanId ||
+		!flags ||
+		traceId === INVALID_TRACE_ID ||
+		spanId === INVALID_SPAN_ID
+	) {
+		return;
+	}
+
+	return {
+		traceId,
+		spanId,
+		sampled: (Number.parseInt(flags, 16) & SAMPLED_FLAG) === SAMPLED_FLAG,
+		...(traceState &&
+			traceState.length <= MAX_TRACESTATE_LENGTH && { traceState }),
+	};
+}
+
+/**
+ * Format a span context as a W3C `traceparent` header value
+ */
+export function formatTraceparent(context: SpanContext): string {
+	return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+export class Span {
+	readonly kind: SpanKind;
+	readonly context: SpanContext;
+	readonly parentSpanId?: string;
+	private name: string;
+	private readonly startTime = nowUnixNano();
+	private readonly attributes: Record<string, AttributeValue>;
+	private readonly events: SpanEvent[] = [];
+	private status: SpanData["status"] = { code: "unset" };
+	private ended = false;
+	private readonly onEnd: (span: SpanData) => void;
+
+	constructor(
+		name: string,
+		options: SpanOptions & { parent?: SpanContext; sampled: boolean },
+		onEnd: (span: SpanData) => void,
+	) {
+		this.name = name;
+		this.kind = options.kind ?? "internal";
+		this.attributes = { ...options.attributes };
+		this.parentSpanId = options.parent?.spanId;
+		this.context = {
+			traceId: options.parent?.traceId ?? randomHex(TRACE_ID_BYTES),
+			spanId: randomHex(SPAN_ID_BYTES),
+			sampled: options.sampled,
+			...(options.parent?.traceState && {
+				traceState: options.parent.traceState,
+			}),
+		};
+		this.onEnd = onEnd;
+	}
+
+	updateName(name: string): this {
+		this.name = name;
+		return this;
+	}
+
+	setAttribute(key: string, value: AttributeValue): this {
+		this.attributes[key] = value;
+		return this;
+	}
+
+	setAttributes(attributes: Record<string, AttributeValue>): this {
+		Object.assign(this.attributes, attributes);
+		return this;
+	}
+
+	setStatus(code: SpanStatusCode, message?: string): this {
+		this.status = { code, ...(message && { message }) };
+		return this;
+	}
+
+	/**
+	 * Record an exception event and mark the span as failed
+	 */
+	recordException(error: unknown): this {
+		const exception = error instanceof Error ? error : new Error(String(error));
+
+		this.events.push({
+			name: "exception",
+			timeUnixNano: nowUnixNano().toString(),
+			attributes: {
+				"exception.type": exception.name,
+				"exception.message": exception.message,
+				...(exception.stack && { "exception.stacktrace": exception.stack }),
+			},
+		});
+
+		return this.setStatus("error", exception.message);
+	}
+
+	end(): void {
+		if (this.ended) {
+			return;
+		}
+
+		this.ended = true;
+
+		if (!this.context.sampled) {
+			return;
+		}
+
+		const endTime = nowUnixNano();
+
+		this.onEnd({
+			name: this.name,
+			kind: this.kind,
+			traceId: this.context.traceId,
+			spanId: this.context.spanId,
+			...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+			...(this.context.traceState && { traceState: this.context.traceState }),
+			startTimeUnixNano: this.startTime.toString(),
+			endTimeUnixNano: endTime.toString(),
+			durationMs: Number(endTime - this.startTime) / 1e6,
+			attributes: this.attributes,
+			events: this.events,
+			status: this.status,
+		});
+	}
+}
+
+/**
+ * Writes one JSON span per line to stdout
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+	export(spans: SpanData[]): Promise<void> {
+		for (const span of spans) {
+			console.log(JSON.stringify({ type: "span", ...span }));
+		}
+
+		return Promise.resolve();
+	}
+}
+
+/**
+ * Appends spans as JSON lines to a file
+ */
+export class FileSpanExporter implements SpanExporter {
+	private readonly path: string;
+
+	constructor(path: string) {
+		this.path = path;
+	}
+
+	async export(spans: SpanData[]): Promise<void> {
+		const lines = spans.map((span) => JSON.stringify(span)).join("\n");
+		await appendFile(this.path, `${lines}\n`);
+	}
+}
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+	internal: 1,
+	server: 2,
+	client: 3,
+};
+
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = {
+	unset: 0,
+	ok: 1,
+	error: 2,
+};
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+	return Object.entries(attributes).map(([key, value]) => {
+		if (typeof value === "boolean") {
+			return { key, value: { boolValue: value } };
+		}
+
+		if (typeof value === "number") {
+			return Number.isInteger(value)
+				? { key, value: { intValue: value } }
+				: { key, value: { doubleValue: value } };
+		}
+
+		return { key, value: { stringValue: value } };
+	});
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+	private readonly url: string;
+	private readonly serviceName: string;
+	private readonly headers: Record<string, string>;
+
+	constructor(options: {
+		endpoint: string;
+		serviceName: string;
+		headers?: Record<string, string>;
+	}) {
+		this.url = `${options.endpoint.replace(/\/$/, "")}/v1/traces`;
+		this.serviceName = options.serviceName;
+		this.headers = options.headers ?? {};
+	}
+
+	async export(spans: SpanData[]): Promise<void> {
+		const body = {
+			resourceSpans: [
+				{
+					resource: {
+						attributes: toOtlpAttributes({ "service.name": this.serviceName }),
+					},
+					scopeSpans: [
+						{
+							scope: { name: "server-tracer" },
+							spans: spans.map((span) => ({
+								traceId: span.traceId,
+								spanId: span.spanId,
+								...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+								...(span.traceState && { traceState: span.traceState }),
+								name: span.name,
+								kind: OTLP_SPAN_KIND[span.kind],
+								startTimeUnixNano: span.startTimeUnixNano,
+								endTimeUnixNano: span.endTimeUnixNano,
+								attributes: toOtlpAttributes(span.attributes),
+								events: span.events.map((event) => ({
+									...event,
+									attributes: toOtlpAttributes(event.attributes),
+								})),
+								status: {
+									code: OTLP_STATUS_CODE[span.status.code],
+									...(span.status.message && { message: span.status.message }),
+								},
+							})),
+						},
+					],
+				},
+			],
+		};
+
+		const response = await fetch(this.url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...this.headers },
+			body: JSON.stringify(body),
+		});
+
+		if (!response.ok) {
+			throw new Error(`OTLP export failed with status ${response.status}`);
+		}
+	}
+}
+
+class Tracer {
+	private readonly storage = new AsyncLocalStorage<Span>();
+	private exporter: SpanExporter | undefined;
+	private sampleRatio = 1;
+	private buffer: SpanData[] = [];
+	private timer: ReturnType<typeof setInterval> | undefined;
+
+	/**
+	 * Set the exporter and root sampling ratio. Without an exporter, spans
+	 * are still created (so context propagates) but never recorded.
+	 */
+	configure(options: { exporter?: SpanExporter; sampleRatio?: number }): void {
+		this.exporter = options.exporter;
+		this.sampleRatio = options.sampleRatio ?? 1;
+
+		clearInterval(this.timer);
+		this.timer = undefined;
+
+		if (this.exporter) {
+			this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+			this.timer.unref?.();
+		}
+	}
+
+	/**
+	 * Start a span as a child of the explicit parent or, unless it is a root,
+	 * the active span
+	 */
+	startSpan(name: string, options: SpanOptions = {}): Span {
+		const parent =
+			options.parent ?? (options.root ? undefined : this.activeSpan()?.context);
+		const sampled = parent ? parent.sampled : Math.random() < this.sampleRatio;
+
+		return new Span(
+			name,
+			{ ...options, parent, sampled: sampled && Boolean(this.exporter) },
+			(span) => this.record(span),
+		);
+	}
+
+	/**
+	 * Run fn inside a new span that ends when fn settles
+	 */
+	async withSpan<T>(
+		name: string,
+		fn: (span: Span) => Promise<T> | T,
+		options: SpanOptions = {},
+	): Promise<T> {
+		const span = this.startSpan(name, options);
+
+		try {
+			return await this.storage.run(span, () => fn(span));
+		} catch (error) {
+			span.recordException(error);
+			throw error;
+		} finally {
+			span.end();
+		}
+	}
+
+	activeSpan(): Span | undefined {
+		return this.storage.getStore();
+	}
+
+	/**
+	 * Make span the active span for the rest of the current async context.
+	 * Used by request hooks, which cannot wrap the handler in a callback.
+	 */
+	enter(span: Span): void {
+		this.storage.enterWith(span);
+	}
+
+	/**
+	 * Export every buffered span. Export failures are logged and dropped.
+	 */
+	async flush(): Promise<void> {
+		if (!this.exporter || this.buffer.length === 0) {
+			return;
+		}
+
+		const spans = this.buffer;
+		this.buffer = [];
+
+		try {
+			await this.exporter.export(spans);
+		} catch (error) {
+			logger.error("Failed to export spans", { err: error });
+		}
+	}
+
+	private record(span: SpanData): void {
+		this.buffer.push(span);
+
+		if (this.buffer.length >= BATCH_SIZE) {
+			this.flush();
+		}
+	}
+}
+
+export const tracer = new Tracer();
+
+registerShutdownHook({
+	name: "tracing",
+	order: ShutdownOrder.TELEMETRY,
+	run: () => tracer.flush(),
+});
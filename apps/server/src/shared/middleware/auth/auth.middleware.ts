@@ -1,25 +1,41 @@
 import { Elysia } from "elysia";
 
-import { StatusCodes } from "../../const";
-import { auth } from "../../lib";
+import { ForbiddenError, UnauthorizedError } from "../../errors";
+import { auth, bindRequestLogger, resignAuthHeaders, tracer } from "../../lib";
+
+export type UserRole = "user" | "admin";
+
+export interface AuthOptions {
+	// Only users with this role may access the route
+	role?: UserRole;
+}
 
 const authMiddleware = new Elysia({ name: "auth-middleware" }).macro({
-	auth: {
-		async resolve({ status, request: { headers } }) {
-			const session = await auth.api.getSession({
-				headers,
-			});
+	auth: (options: true | AuthOptions) => ({
+		async resolve({ request }) {
+			const session = await tracer.withSpan("auth.getSession", () =>
+				resignAuthHeaders(request.headers).then((headers) =>
+					auth.api.getSession({ headers }),
+				),
+			);
 
 			if (!session) {
-				return status(StatusCodes.UNAUTHORIZED);
+				throw new UnauthorizedError();
+			}
+
+			const role = options === true ? undefined : options.role;
+
+			if (role && session.user.role !== role) {
+				throw new ForbiddenError();
 			}
 
 			return {
 				user: session.user,
 				session: session.session,
+				log: bindRequestLogger(request, { userId: session.user.id }),
 			};
 		},
-	},
+	}),
 });
 
 export default authMiddleware;
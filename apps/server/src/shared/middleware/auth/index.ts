@@ -1 +1 @@
-export { default } from "./auth.middleware";
+export { type AuthOptions, default, type UserRole } from "./auth.middleware";
@@ -1,17 +1,21 @@
 import { cors } from "@elysiajs/cors";
 import { Elysia } from "elysia";
 
-import { corsConfig } from "../../config";
+import { config } from "../../config";
 
-const corsMiddleware = new Elysia({ name: "cors-middleware" })
-	.use(corsConfig)
-	.use(({ decorator: { corsConfig } }) =>
+const corsMiddleware = new Elysia({ name: "cors-middleware" }).use(config).use(
+	({
+		decorator: {
+			config: { cors: corsConfig },
+		},
+	}) =>
 		cors({
 			origin: corsConfig.origin,
 			methods: corsConfig.methods,
 			allowedHeaders: corsConfig.allowedHeaders,
+			exposeHeaders: corsConfig.exposedHeaders,
 			credentials: corsConfig.credentials,
 		}),
-	);
+);
 
 export default corsMiddleware;
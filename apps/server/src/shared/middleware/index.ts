@@ -1,2 +1,17 @@
-export { default as authMiddleware } from "./auth";
+export {
+	type AuthOptions,
+	default as authMiddleware,
+	type UserRole,
+} from "./auth";
 export { default as corsMiddleware } from "./cors";
+export {
+	default as rateLimitMiddleware,
+	type RateLimitKey,
+	type RateLimitKeyContext,
+	type RateLimitPolicy,
+} from "./rate-limit";
+export {
+	default as requestContextMiddleware,
+	getRequestId,
+	REQUEST_ID_HEADER,
+} from "./request-context";
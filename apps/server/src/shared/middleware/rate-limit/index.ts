@@ -0,0 +1,6 @@
+export {
+	default,
+	type RateLimitKey,
+	type RateLimitKeyContext,
+	type RateLimitPolicy,
+} from "./rate-limit.middleware";
@@ -0,0 +1,144 @@
+import { Elysia } from "elysia";
+
+import { rateLimitConfig } from "../../config";
+import { TooManyRequestsError } from "../../errors";
+import {
+	type Duration,
+	getRequestLogger,
+	MemoryRateLimitStore,
+	PostgresRateLimitStore,
+	parseDuration,
+	type RateLimitStore,
+} from "../../lib";
+import { Problem } from "../../utils";
+import { getRequestId } from "../request-context";
+
+export interface RateLimitKeyContext {
+	request: Request;
+	ip: string;
+	// Set when the route also uses the auth macro
+	user?: { id: string };
+}
+
+export type RateLimitKey =
+	| "ip"
+	| "user"
+	| ((context: RateLimitKeyContext) => string | Promise<string>);
+
+export interface RateLimitPolicy {
+	window: Duration;
+	// Requests allowed per key and window
+	max: number;
+	// "user" falls back to the IP for anonymous requests
+	key?: RateLimitKey;
+	// Routes sharing a name share their counters, defaults to the route
+	name?: string;
+}
+
+const store: RateLimitStore =
+	rateLimitConfig.store === "postgres"
+		? new PostgresRateLimitStore()
+		: new MemoryRateLimitStore();
+
+function clientIp(
+	request: Request,
+	server: { requestIP(request: Request): { address: string } | null } | null,
+): string {
+	if (rateLimitConfig.trustProxy) {
+		// Proxies append the address they received from, so entries left of
+		// the ones our own proxies added may have been sent by the client
+		const forwarded = request.headers
+			.get("x-forwarded-for")
+			?.split(",")
+			.at(-rateLimitConfig.proxyHops)
+			?.trim();
+
+		if (forwarded) {
+			return forwarded;
+		}
+	}
+
+	return server?.requestIP(request)?.address ?? "unknown";
+}
+
+async function resolveKey(
+	key: RateLimitKey,
+	context: RateLimitKeyContext,
+): Promise<string> {
+	if (typeof key === "function") {
+		return `custom:${await key(context)}`;
+	}
+
+	if (key === "user" && context.user) {
+		return `user:${context.user.id}`;
+	}
+
+	return `ip:${context.ip}`;
+}
+
+const rateLimitMiddleware = new Elysia({ name: "rate-limit-middleware" }).macro(
+	{
+		rateLimit: (policy: RateLimitPolicy) => {
+			const windowMs = parseDuration(policy.window);
+			const windowSeconds = Math.ceil(windowMs / 1000);
+
+			return {
+				async beforeHandle(context) {
+					if (!rateLimitConfig.enabled) {
+						return;
+					}
+
+					const { request, server, set, route, path } = context;
+					const key = await resolveKey(policy.key ?? "ip", {
+						request,
+						ip: clientIp(request, server),
+						user: (context as { user?: { id: string } }).user,
+					});
+					const bucket = `${policy.name ?? `${request.method} ${route}`}:${key}`;
+
+					let hit: Awaited<ReturnType<RateLimitStore["increment"]>>;
+
+					try {
+						hit = await store.increment(bucket, windowMs);
+					} catch (error) {
+						// Fail open: an unavailable store must not take the routes down
+						getRequestLogger(request).warn("Rate limit store failed", {
+							err: error,
+						});
+						return;
+					}
+
+					const resetSeconds = Math.max(
+						0,
+						Math.ceil((hit.resetAt - Date.now()) / 1000),
+					);
+
+					set.headers["ratelimit-limit"] = String(policy.max);
+					set.headers["ratelimit-remaining"] = String(
+						Math.max(0, policy.max - hit.count),
+					);
+					set.headers["ratelimit-reset"] = String(resetSeconds);
+					set.headers["ratelimit-policy"] = `${policy.max};w=${windowSeconds}`;
+
+					if (hit.count > policy.max) {
+						const error = new TooManyRequestsError(resetSeconds);
+
+						set.status = error.status;
+						Object.assign(set.headers, error.headers);
+
+						return Problem.respond(
+							Problem.of(error.code, {
+								detail: error.message,
+								instance: path,
+								requestId: getRequestId(request),
+							}),
+							request.headers.get("accept"),
+						);
+					}
+				},
+			};
+		},
+	},
+);
+
+export default rateLimitMiddleware;
@@ -0,0 +1,5 @@
+export {
+	default,
+	getRequestId,
+	REQUEST_ID_HEADER,
+} from "./request-context.middleware";
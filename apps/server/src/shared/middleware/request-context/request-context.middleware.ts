@@ -0,0 +1,44 @@
+import { Elysia } from "elysia";
+
+import { generateId } from "../../utils";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Incoming IDs end up in logs, so reject anything that could forge a line
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const requestIds = new WeakMap<Request, string>();
+
+/**
+ * Returns the correlation ID of a request, assigning one on first access.
+ *
+ * Hooks that only receive the raw request (error handlers, log transports)
+ * use this instead of the derived `requestId`.
+ */
+export function getRequestId(request: Request): string {
+	const existing = requestIds.get(request);
+
+	if (existing) {
+		return existing;
+	}
+
+	const incoming = request.headers.get(REQUEST_ID_HEADER);
+	const requestId =
+		incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : generateId();
+
+	requestIds.set(request, requestId);
+
+	return requestId;
+}
+
+const requestContextMiddleware = new Elysia({
+	name: "request-context-middleware",
+})
+	.onRequest(({ request, set }) => {
+		set.headers[REQUEST_ID_HEADER] = getRequestId(request);
+	})
+	.derive({ as: "global" }, ({ request }) => ({
+		requestId: getRequestId(request),
+	}));
+
+export default requestContextMiddleware;
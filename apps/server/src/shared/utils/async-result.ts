@@ -0,0 +1,238 @@
+import { type Err, err, type Ok, ok, type Result } from "./result";
+
+/**
+ * Async counterpart of Result.
+ *
+ * An AsyncResult wraps a Promise<Result<T, E>> and can be awaited directly.
+ * Every combinator accepts sync or async callbacks, so a chain of database
+ * calls reads as one pipeline. Callbacks must not throw; wrap throwing calls
+ * with `AsyncResult.fromPromise` instead.
+ */
+
+type MaybePromise<T> = T | PromiseLike<T>;
+
+type ResultLike = MaybePromise<Result<unknown, unknown>>;
+
+// Distributes over Ok | Err, unlike OkType, which also sees Err's unknown
+type OkValue<R> = Awaited<R> extends infer Res
+	? Res extends Ok<infer T>
+		? T
+		: never
+	: never;
+
+type ErrValue<R> = Awaited<R> extends infer Res
+	? Res extends Err<infer E>
+		? E
+		: never
+	: never;
+
+type OkValues<Results extends readonly ResultLike[]> = {
+	-readonly [K in keyof Results]: OkValue<Results[K]>;
+};
+
+export class AsyncResult<T, E = Error> implements PromiseLike<Result<T, E>> {
+	private readonly promise: Promise<Result<T, E>>;
+
+	constructor(result: MaybePromise<Result<T, E>>) {
+		this.promise = Promise.resolve(result);
+	}
+
+	/**
+	 * Creates an AsyncResult containing the given value
+	 */
+	static ok<T>(value: T): AsyncResult<T, never> {
+		return new AsyncResult<T, never>(ok(value));
+	}
+
+	/**
+	 * Creates an AsyncResult containing the given error
+	 */
+	static err<E>(error: E): AsyncResult<never, E> {
+		return new AsyncResult<never, E>(err(error));
+	}
+
+	/**
+	 * Wraps a promise that might reject, typing the rejection with mapError,
+	 * e.g. `AsyncResult.fromPromise(db.insert(...), translateDatabaseError)`
+	 */
+	static fromPromise<T, E>(
+		promise: PromiseLike<T>,
+		mapError: (error: unknown) => E,
+	): AsyncResult<T, E> {
+		return new AsyncResult(
+			Promise.resolve(promise).then(
+				(value) => ok(value),
+				(error: unknown) => err(mapError(error)),
+			),
+		);
+	}
+
+	/**
+	 * Wraps a promise that never rejects
+	 */
+	static fromSafePromise<T>(promise: PromiseLike<T>): AsyncResult<T, never> {
+		return new AsyncResult<T, never>(Promise.resolve(promise).then(ok));
+	}
+
+	/**
+	 * Waits for all results concurrently. Ok with every value in order if all
+	 * succeed, otherwise the first Err in input order.
+	 */
+	static combine<const Results extends readonly ResultLike[]>(
+		results: Results,
+	): AsyncResult<OkValues<Results>, ErrValue<Results[number]>> {
+		return new AsyncResult(
+			Promise.all(results).then((settled) => {
+				const values: unknown[] = [];
+
+				for (const result of settled) {
+					if (!result.success) {
+						return result;
+					}
+
+					values.push(result.value);
+				}
+
+				return ok(values);
+			}),
+		) as AsyncResult<OkValues<Results>, ErrValue<Results[number]>>;
+	}
+
+	/**
+	 * Like combine, but collects every error instead of stopping at the first
+	 */
+	static combineWithAllErrors<const Results extends readonly ResultLike[]>(
+		results: Results,
+	): AsyncResult<OkValues<Results>, ErrValue<Results[number]>[]> {
+		return new AsyncResult(
+			Promise.all(results).then((settled) => {
+				const values: unknown[] = [];
+				const errors: unknown[] = [];
+
+				for (const result of settled) {
+					if (result.success) {
+						values.push(result.value);
+					} else {
+						errors.push(result.error);
+					}
+				}
+
+				return errors.length > 0 ? err(errors) : ok(values);
+			}),
+		) as AsyncResult<OkValues<Results>, ErrValue<Results[number]>[]>;
+	}
+
+	// biome-ignore lint/suspicious/noThenProperty: being awaitable is the point
+	then<A = Result<T, E>, B = never>(
+		onFulfilled?: ((result: Result<T, E>) => MaybePromise<A>) | null,
+		onRejected?: ((reason: unknown) => MaybePromise<B>) | null,
+	): Promise<A | B> {
+		return this.promise.then(onFulfilled, onRejected);
+	}
+
+	/**
+	 * Unwraps the value inside R.genAsync, `const value = yield* asyncResult`
+	 */
+	async *[Symbol.asyncIterator](): AsyncGenerator<Err<E>, T, unknown> {
+		return yield* await this.promise;
+	}
+
+	/**
+	 * Maps the Ok value with a sync or async function
+	 */
+	map<U>(fn: (value: T) => MaybePromise<U>): AsyncResult<U, E> {
+		return new AsyncResult(
+			this.promise.then(async (result) =>
+				result.success ? ok(await fn(result.value)) : result,
+			),
+		);
+	}
+
+	/**
+	 * Maps the Err value with a sync or async function
+	 */
+	mapErr<F>(fn: (error: E) => MaybePromise<F>): AsyncResult<T, F> {
+		return new AsyncResult(
+			this.promise.then(async (result) =>
+				result.success ? result : err(await fn(result.error)),
+			),
+		);
+	}
+
+	/**
+	 * Continues with another (async) Result if Ok
+	 */
+	andThen<U, F>(
+		fn: (value: T) => MaybePromise<Result<U, F>>,
+	): AsyncResult<U, E | F> {
+		return new AsyncResult<U, E | F>(
+			this.promise.then((result) =>
+				result.success ? fn(result.value) : result,
+			),
+		);
+	}
+
+	/**
+	 * Recovers from an Err with another (async) Result
+	 */
+	orElse<U, F>(
+		fn: (error: E) => MaybePromise<Result<U, F>>,
+	): AsyncResult<T | U, F> {
+		return new AsyncResult<T | U, F>(
+			this.promise.then((result) =>
+				result.success ? result : fn(result.error),
+			),
+		);
+	}
+
+	/**
+	 * Runs a side effect on the Ok value and waits for it, keeping the result
+	 */
+	tap(fn: (value: T) => unknown): AsyncResult<T, E> {
+		return new AsyncResult(
+			this.promise.then(async (result) => {
+				if (result.success) {
+					await fn(result.value);
+				}
+
+				return result;
+			}),
+		);
+	}
+
+	/**
+	 * Runs a side effect on the Err value and waits for it, keeping the result
+	 */
+	tapErr(fn: (error: E) => unknown): AsyncResult<T, E> {
+		return new AsyncResult(
+			this.promise.then(async (result) => {
+				if (!result.success) {
+					await fn(result.error);
+				}
+
+				return result;
+			}),
+		);
+	}
+
+	/**
+	 * Resolves with the handler's value for whichever case the result is
+	 */
+	match<A, B = A>(handlers: {
+		ok: (value: T) => MaybePromise<A>;
+		err: (error: E) => MaybePromise<B>;
+	}): Promise<A | B> {
+		return this.promise.then((result) =>
+			result.success ? handlers.ok(result.value) : handlers.err(result.error),
+		);
+	}
+
+	/**
+	 * Resolves with the Ok value or the provided default
+	 */
+	unwrapOr<U>(defaultValue: U): Promise<T | U> {
+		return this.promise.then((result) =>
+			result.success ? result.value : defaultValue,
+		);
+	}
+}
@@ -1,3 +1,8 @@
+export * from "./async-result";
+export * from "./option";
+export * from "./problem";
 export * from "./response";
 export * from "./result";
+export * from "./status";
+export * from "./typeid";
 export * from "./uuid";
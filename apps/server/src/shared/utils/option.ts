@@ -0,0 +1,279 @@
+/**
+ * Option implementation inspired by Rust's Option<T>
+ *
+ * An Option is either a value (Some) or its absence (None). Unlike `T | null`
+ * it chains like a Result, and a lookup that found nothing stays separate
+ * from a lookup that failed: `Result<Option<Row>, HttpError>`.
+ */
+
+import { err, ok, type Result } from "./result";
+
+export type Option<T> = Some<T> | None;
+
+export class Some<T> {
+	readonly some = true as const;
+	readonly value: T;
+
+	constructor(value: T) {
+		this.value = value;
+	}
+
+	/**
+	 * Returns true if the option is Some
+	 */
+	isSome(): this is Some<T> {
+		return true;
+	}
+
+	/**
+	 * Returns false if the option is Some
+	 */
+	isNone(): this is None {
+		return false;
+	}
+
+	/**
+	 * Returns the contained value or throws if the option is None
+	 */
+	unwrap(): T {
+		return this.value;
+	}
+
+	/**
+	 * Returns the contained value or a provided default
+	 */
+	unwrapOr(_defaultValue: T): T {
+		return this.value;
+	}
+
+	/**
+	 * Returns the contained value or computes it from a closure
+	 */
+	unwrapOrElse(_fn: () => T): T {
+		return this.value;
+	}
+
+	/**
+	 * Maps an Option<T> to Option<U> by applying a function to a contained value
+	 */
+	map<U>(fn: (value: T) => U): Option<U> {
+		return new Some(fn(this.value));
+	}
+
+	/**
+	 * Calls op if the option is Some, otherwise returns None
+	 */
+	andThen<U>(op: (value: T) => Option<U>): Option<U> {
+		return op(this.value);
+	}
+
+	/**
+	 * Returns None if the predicate rejects the contained value
+	 */
+	filter(predicate: (value: T) => boolean): Option<T> {
+		return predicate(this.value) ? this : none;
+	}
+
+	/**
+	 * Returns the option if it is Some, otherwise returns the alternative
+	 */
+	or(_alternative: Option<T>): Option<T> {
+		return this;
+	}
+
+	/**
+	 * Converts into a Result, with the given error for None
+	 */
+	okOr<E>(_error: E): Result<T, E> {
+		return ok(this.value);
+	}
+
+	/**
+	 * Converts into a Result, computing the error for None
+	 */
+	okOrElse<E>(_fn: () => E): Result<T, E> {
+		return ok(this.value);
+	}
+
+	/**
+	 * Returns the contained value or null, for leaving the Option world
+	 */
+	toNullable(): T | null {
+		return this.value;
+	}
+
+	/**
+	 * Returns an iterator over the possibly contained value
+	 */
+	*[Symbol.iterator](): Iterator<T> {
+		yield this.value;
+	}
+
+	/**
+	 * String representation of the Option
+	 */
+	toString(): string {
+		return `Some(${this.value})`;
+	}
+}
+
+export class None {
+	readonly some = false as const;
+
+	/**
+	 * Returns false if the option is None
+	 */
+	isSome(): this is Some<never> {
+		return false;
+	}
+
+	/**
+	 * Returns true if the option is None
+	 */
+	isNone(): this is None {
+		return true;
+	}
+
+	/**
+	 * Returns the contained value or throws if the option is None
+	 */
+	unwrap(): never {
+		throw new Error("Called unwrap on None");
+	}
+
+	/**
+	 * Returns the contained value or a provided default
+	 */
+	unwrapOr<T>(defaultValue: T): T {
+		return defaultValue;
+	}
+
+	/**
+	 * Returns the contained value or computes it from a closure
+	 */
+	unwrapOrElse<T>(fn: () => T): T {
+		return fn();
+	}
+
+	/**
+	 * Maps an Option<T> to Option<U> by applying a function to a contained value
+	 */
+	map<U>(_fn: (value: never) => U): Option<U> {
+		return this;
+	}
+
+	/**
+	 * Calls op if the option is Some, otherwise returns None
+	 */
+	andThen<U>(_op: (value: never) => Option<U>): Option<U> {
+		return this;
+	}
+
+	/**
+	 * Returns None if the predicate rejects the contained value
+	 */
+	filter(_predicate: (value: never) => boolean): None {
+		return this;
+	}
+
+	/**
+	 * Returns the option if it is Some, otherwise returns the alternative
+	 */
+	or<T>(alternative: Option<T>): Option<T> {
+		return alternative;
+	}
+
+	/**
+	 * Converts into a Result, with the given error for None
+	 */
+	okOr<E>(error: E): Result<never, E> {
+		return err(error);
+	}
+
+	/**
+	 * Converts into a Result, computing the error for None
+	 */
+	okOrElse<E>(fn: () => E): Result<never, E> {
+		return err(fn());
+	}
+
+	/**
+	 * Returns the contained value or null, for leaving the Option world
+	 */
+	toNullable(): null {
+		return null;
+	}
+
+	/**
+	 * Returns an iterator over the possibly contained value
+	 */
+	*[Symbol.iterator](): Iterator<never> {
+		// Empty iterator for None
+	}
+
+	/**
+	 * String representation of the Option
+	 */
+	toString(): string {
+		return "None";
+	}
+}
+
+/**
+ * The single None value
+ */
+export const none: None = new None();
+
+/**
+ * Creates an Option containing the given value
+ */
+export function some<T>(value: T): Some<T> {
+	return new Some(value);
+}
+
+export const O = {
+	/**
+	 * Creates an Option containing the given value
+	 */
+	some,
+
+	/**
+	 * The absent Option
+	 */
+	none,
+
+	/**
+	 * Some for a value, None for null or undefined
+	 */
+	fromNullable<T>(value: T | null | undefined): Option<NonNullable<T>> {
+		return value != null ? some(value as NonNullable<T>) : none;
+	},
+
+	/**
+	 * The Ok value of a Result, dropping the error
+	 */
+	fromResult<T, E>(result: Result<T, E>): Option<T> {
+		return result.success ? some(result.value) : none;
+	},
+
+	/**
+	 * The first row of a query, `O.first(await db.select()...limit(1))`
+	 */
+	first<T>(rows: readonly T[]): Option<T> {
+		return rows.length > 0 ? some(rows[0] as T) : none;
+	},
+};
+
+/**
+ * Type guard to check if an Option is Some
+ */
+export function isSome<T>(option: Option<T>): option is Some<T> {
+	return option.isSome();
+}
+
+/**
+ * Type guard to check if an Option is None
+ */
+export function isNone<T>(option: Option<T>): option is None {
+	return option.isNone();
+}
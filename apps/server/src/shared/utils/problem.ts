@@ -0,0 +1,152 @@
+import type { ApiResponse } from "./response";
+import { type ErrorCode, ErrorCodes } from "../const";
+import type { FieldError } from "../errors/http.error";
+
+// RFC 9457 problem details
+// This file is exported via @/utils barrel export
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+export interface ProblemDetails {
+	// Relative URI documenting the code, resolved against the API origin
+	type: string;
+	title: string;
+	status: number;
+	detail?: string;
+	// Path of the request the problem occurred on
+	instance?: string;
+	code: ErrorCode;
+	requestId?: string;
+	// Extension members, e.g. the field errors of a validation problem
+	[extension: string]: unknown;
+}
+
+export interface ProblemOptions {
+	detail?: string;
+	instance?: string;
+	requestId?: string;
+	[extension: string]: unknown;
+}
+
+export type ErrorFormat = "problem" | "legacy";
+
+/**
+ * Documentation URI of an error code, `/problems/rate-limited` for
+ * `RATE_LIMITED`
+ */
+export function problemType(code: ErrorCode): string {
+	return `/problems/${code.toLowerCase().replace(/_/g, "-")}`;
+}
+
+export const Problem = {
+	of: (
+		code: ErrorCode,
+		{ detail, instance, ...extensions }: ProblemOptions = {},
+	): ProblemDetails => {
+		const { status, title } = ErrorCodes[code];
+		const standard = {
+			type: problemType(code),
+			title,
+			status,
+			...(detail && detail !== title && { detail }),
+			...(instance && { instance }),
+			code,
+		};
+
+		// Spread again so extensions never replace a standard member
+		return { ...standard, ...extensions, ...standard };
+	},
+
+	// The envelope clients predating problem details expect
+	toApiResponse: ({ title, detail, code, requestId, errors }: ProblemDetails) =>
+		({
+			success: false,
+			error: detail ?? title,
+			code,
+			...(requestId && { requestId }),
+			...(Array.isArray(errors) && { errors: errors as FieldError[] }),
+		}) satisfies ApiResponse,
+
+	/**
+	 * The body of an error response in the format the Accept header prefers.
+	 * Problems are a Response, so no adapter replaces their content type with
+	 * application/json or text/plain; headers in `set` are merged into it.
+	 */
+	respond: (
+		problem: ProblemDetails,
+		accept: string | null,
+	): ApiResponse | globalThis.Response =>
+		negotiateErrorFormat(accept) === "legacy"
+			? Problem.toApiResponse(problem)
+			: new globalThis.Response(JSON.stringify(problem), {
+					status: problem.status,
+					headers: { "content-type": PROBLEM_CONTENT_TYPE },
+				}),
+};
+
+// 3 for an exact match, 2 for type/*, 1 for */* and 0 for no match
+function matchSpecificity(range: string, mediaType: string): number {
+	if (range === mediaType) {
+		return 3;
+	}
+
+	if (range === `${mediaType.split("/")[0]}/*`) {
+		return 2;
+	}
+
+	return range === "*/*" ? 1 : 0;
+}
+
+interface AcceptMatch {
+	quality: number;
+	specificity: number;
+}
+
+/**
+ * Quality the Accept header gives a media type, taken from its most
+ * specific matching range (RFC 9110 section 12.5.1)
+ */
+function acceptMatch(accept: string, mediaType: string): AcceptMatch {
+	const match: AcceptMatch = { quality: 0, specificity: 0 };
+
+	for (const range of accept.split(",")) {
+		const [name = "", ...parameters] = range
+			.split(";")
+			.map((part) => part.trim().toLowerCase());
+		const specificity = matchSpecificity(name, mediaType);
+
+		if (specificity <= match.specificity) {
+			continue;
+		}
+
+		const q = parameters.find((parameter) => parameter.startsWith("q="));
+
+		match.specificity = specificity;
+		match.quality = q ? Number(q.slice(2)) || 0 : 1;
+	}
+
+	return match;
+}
+
+/**
+ * Problem details unless the client prefers plain JSON, which is how
+ * clients that still expect the legacy `ApiResponse` shape are recognised.
+ * On equal quality the range naming the type more specifically wins, so
+ * Axios' default, which names application/json next to a wildcard, still gets
+ * the legacy shape.
+ */
+export function negotiateErrorFormat(accept: string | null): ErrorFormat {
+	if (!accept) {
+		return "problem";
+	}
+
+	const json = acceptMatch(accept, "application/json");
+	const problem = acceptMatch(accept, PROBLEM_CONTENT_TYPE);
+
+	if (json.quality !== problem.quality) {
+		return json.quality > problem.quality ? "legacy" : "problem";
+	}
+
+	return json.quality > 0 && json.specificity > problem.specificity
+		? "legacy"
+		: "problem";
+}
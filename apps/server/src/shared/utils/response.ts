@@ -1,4 +1,5 @@
 import { StatusCodes } from "../const";
+import type { FieldError } from "../errors/http.error";
 
 // Standard API response types
 // This file is exported via @/utils barrel export
@@ -8,6 +9,10 @@ export interface ApiResponse<T = unknown> {
 	error?: string;
 	code?: string;
 	message?: string;
+	// Correlation ID of the request, set on error responses
+	requestId?: string;
+	// Every invalid field of a validation error
+	errors?: FieldError[];
 }
 
 export interface PaginatedResponse<T = unknown> extends ApiResponse<T[]> {
@@ -19,6 +24,15 @@ export interface PaginatedResponse<T = unknown> extends ApiResponse<T[]> {
 	};
 }
 
+export interface CursorPaginatedResponse<T = unknown> extends ApiResponse<T[]> {
+	pagination: {
+		limit: number;
+		// Opaque cursors of the adjacent pages, null at either end
+		nextCursor: string | null;
+		prevCursor: string | null;
+	};
+}
+
 // Concise API response helpers
 export const Response = {
 	ok: <T>(data: T, message?: string): ApiResponse<T> => ({
@@ -56,6 +70,15 @@ export const Response = {
 		},
 	}),
 
+	cursorPaginate: <T>(
+		data: T[],
+		pagination: CursorPaginatedResponse<T>["pagination"],
+	): CursorPaginatedResponse<T> => ({
+		success: true,
+		data,
+		pagination,
+	}),
+
 	// Common error responses with proper status codes
 	badRequest: (error: string | Error) =>
 		Response.err(error, StatusCodes.BAD_REQUEST),
@@ -5,6 +5,18 @@
  * This is useful for error handling without throwing exceptions.
  */
 
+import {
+	decodeResult,
+	encodeResult,
+	type WireError,
+	type WireResult,
+} from "@workspace/shared";
+import { getSchemaValidator, type Static, type TSchema } from "elysia";
+import type { z } from "zod";
+
+// Not the barrel, whose database errors import this file
+import { fieldErrorsFromSchema, ValidationError } from "../errors/http.error";
+
 export type Result<T, E = Error> = Ok<T> | Err<E>;
 
 export class Ok<T> {
@@ -136,10 +148,12 @@ export class Ok<T> {
 	}
 
 	/**
-	 * Returns an iterator over the possibly contained value
+	 * Unwraps the value inside R.gen, `const value = yield* result`.
+	 * Iterated elsewhere it yields nothing, iterate `O.fromResult(result)`
+	 * for the value.
 	 */
-	*[Symbol.iterator](): Iterator<T> {
-		yield this.value;
+	[Symbol.iterator](): Iterator<never, T, unknown> {
+		return { next: () => ({ done: true, value: this.value }) };
 	}
 
 	/**
@@ -279,10 +293,14 @@ export class Err<E> {
 	}
 
 	/**
-	 * Returns an iterator over the possibly contained value
+	 * Hands the error to R.gen, which stops the generator there. Iterated
+	 * elsewhere, e.g. spread or compared by a test matcher, it yields itself
+	 * and finishes.
 	 */
-	*[Symbol.iterator](): Iterator<never> {
-		// Empty iterator for Err
+	*[Symbol.iterator](): Generator<Err<E>, never, unknown> {
+		yield this;
+		// Never reached inside R.gen, which does not resume the generator
+		return this as never;
 	}
 
 	/**
@@ -307,6 +325,15 @@ export function err<E>(error: E): Err<E> {
 	return new Err(error);
 }
 
+// Compiling a TypeBox schema is slow, so each is compiled once
+const schemaValidators = new WeakMap<
+	TSchema,
+	ReturnType<typeof getSchemaValidator<TSchema>>
+>();
+
+// Error type of the Errs a generator passed to R.gen yields
+type YieldedError<Y> = Y extends Err<infer E> ? E : never;
+
 /**
  * Utility functions for working with Results
  */
@@ -344,6 +371,66 @@ export const R = {
 		}
 	},
 
+	/**
+	 * Runs a generator in which `yield*` unwraps an Ok or stops with its Err.
+	 * The error type is the union of every yielded Result's error type.
+	 */
+	gen<Y extends Err<unknown>, T>(
+		body: () => Generator<Y, T, unknown>,
+	): Result<T, YieldedError<Y>> {
+		const iterator = body();
+		const step = iterator.next();
+
+		if (step.done) {
+			return ok(step.value);
+		}
+
+		// Runs the generator's finally blocks
+		iterator.return(undefined as never);
+		return step.value as Err<YieldedError<Y>>;
+	},
+
+	/**
+	 * R.gen for async generators, which can also `yield*` an AsyncResult
+	 */
+	async genAsync<Y extends Err<unknown>, T>(
+		body: () => AsyncGenerator<Y, T, unknown>,
+	): Promise<Result<T, YieldedError<Y>>> {
+		const iterator = body();
+		const step = await iterator.next();
+
+		if (step.done) {
+			return ok(step.value);
+		}
+
+		await iterator.return(undefined as never);
+		return step.value as Err<YieldedError<Y>>;
+	},
+
+	/**
+	 * Encodes a Result in the JSON wire format shared with the web app,
+	 * e.g. `R.toWire(result, toWireError)`
+	 */
+	toWire<T, E, WE extends WireError = WireError>(
+		result: Result<T, E>,
+		encodeError: (error: E) => WE,
+	): WireResult<T, WE> {
+		return encodeResult(result, encodeError);
+	},
+
+	/**
+	 * Decodes the JSON wire format into a Result, throws a TypeError for
+	 * anything else
+	 */
+	fromWire<T = unknown>(
+		input: unknown,
+		parseValue?: (value: unknown) => T,
+	): Result<T, WireError> {
+		const wire = decodeResult(input, parseValue);
+
+		return wire.ok ? ok(wire.value) : err(wire.error);
+	},
+
 	/**
 	 * Combines multiple Results into a single Result
 	 * Returns Ok with an array of values if all are Ok, otherwise returns the first Err
@@ -387,6 +474,43 @@ export const R = {
 		return value != null ? ok(value as NonNullable<T>) : err(new Error(error));
 	},
 
+	/**
+	 * Parses input with a zod schema, collecting every issue as a field error
+	 */
+	fromZod<Schema extends z.ZodType>(
+		schema: Schema,
+		input: unknown,
+	): Result<z.output<Schema>, ValidationError> {
+		const parsed = schema.safeParse(input);
+
+		return parsed.success
+			? ok(parsed.data)
+			: err(ValidationError.fromZod(parsed.error));
+	},
+
+	/**
+	 * R.fromZod for the `t` schemas Elysia routes declare
+	 */
+	fromSchema<Schema extends TSchema>(
+		schema: Schema,
+		input: unknown,
+	): Result<Static<Schema>, ValidationError> {
+		let validator = schemaValidators.get(schema);
+
+		if (!validator) {
+			validator = getSchemaValidator(schema);
+			schemaValidators.set(schema, validator);
+		}
+
+		const parsed = validator.safeParse(input);
+
+		return parsed.success
+			? ok(parsed.data as Static<Schema>)
+			: err(
+					new ValidationError(undefined, fieldErrorsFromSchema(parsed.errors)),
+				);
+	},
+
 	/**
 	 * Creates a Result from a predicate function
 	 */
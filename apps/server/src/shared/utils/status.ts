@@ -0,0 +1,34 @@
+import { StatusMap } from "elysia";
+
+import { StatusCodes } from "../const";
+
+/**
+ * Normalize Elysia's `set.status`, which may be a numeric code or a
+ * status name such as "Not Found", into a numeric status code
+ */
+export function toStatusCode(status: number | string | undefined): number {
+	if (typeof status === "number") {
+		return status;
+	}
+
+	if (status && status in StatusMap) {
+		return StatusMap[status as keyof typeof StatusMap];
+	}
+
+	return StatusCodes.OK;
+}
+
+/**
+ * Read the status code carried by a thrown error, defaulting to 500
+ */
+export function errorStatusCode(error: unknown): number {
+	if (
+		error instanceof Error &&
+		"status" in error &&
+		typeof error.status === "number"
+	) {
+		return error.status;
+	}
+
+	return StatusCodes.INTERNAL_SERVER_ERROR;
+}
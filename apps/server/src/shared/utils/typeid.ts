@@ -0,0 +1,163 @@
+import { customType } from "drizzle-orm/pg-core";
+import { t } from "elysia";
+import { z } from "zod";
+
+import { err, ok, type Result } from "./result";
+import {
+	generateUuidV7,
+	isValidUuid,
+	uuidFromBigInt,
+	uuidToBigInt,
+} from "./uuid";
+// Not the barrel, whose database errors import utils
+import { ValidationError } from "../errors/http.error";
+
+/**
+ * Prefixed IDs in the TypeID format, e.g. `usr_01h455vb4pex5vsknk084sn02q`
+ *
+ * The suffix is a UUID (v7 when generated here) in lowercase Crockford
+ * base32, so IDs sort by creation time and name their kind in logs and URLs.
+ * The prefix is part of the type, a session ID is not assignable to a user ID.
+ */
+
+declare const typeIdBrand: unique symbol;
+
+export type TypeId<Prefix extends string> = `${Prefix}_${string}` & {
+	readonly [typeIdBrand]: Prefix;
+};
+
+// Crockford base32 without i, l, o and u
+const ALPHABET = "0123456789abcdefghjkmnpqrstvwxyz";
+const SUFFIX_LENGTH = 26;
+const BITS_PER_CHAR = 5n;
+const CHAR_MASK = 31n;
+
+// Lowercase letters and inner underscores, at most 63 characters
+const PREFIX_REGEX = /^[a-z]([a-z_]{0,61}[a-z])?$/;
+// 26 characters are 130 bits, the first one only carries 3 of them
+const SUFFIX_PATTERN = "[0-7][0-9a-hjkmnp-tv-z]{25}";
+
+/**
+ * The base32 suffix of a UUID
+ */
+function encodeSuffix(uuid: string): string {
+	let value = uuidToBigInt(uuid);
+	let suffix = "";
+
+	for (let index = 0; index < SUFFIX_LENGTH; index++) {
+		suffix = ALPHABET[Number(value & CHAR_MASK)] + suffix;
+		value >>= BITS_PER_CHAR;
+	}
+
+	return suffix;
+}
+
+/**
+ * The UUID a base32 suffix encodes, the suffix must match SUFFIX_PATTERN
+ */
+function decodeSuffix(suffix: string): string {
+	let value = 0n;
+
+	for (const char of suffix) {
+		value = (value << BITS_PER_CHAR) | BigInt(ALPHABET.indexOf(char));
+	}
+
+	return uuidFromBigInt(value);
+}
+
+/**
+ * Defines the ID type of one kind of entity, e.g.
+ *
+ * ```ts
+ * export const userId = defineId("usr");
+ * export type UserId = TypeId<"usr">;
+ *
+ * // Stored as a native uuid column
+ * id: userId.column("id").primaryKey().$defaultFn(userId.generate),
+ *
+ * // Validated where it enters the API
+ * .get("/users/:id", handler, { params: t.Object({ id: userId.schema }) })
+ * ```
+ *
+ * @throws Error if the prefix is not valid in a TypeID
+ */
+export function defineId<const Prefix extends string>(prefix: Prefix) {
+	if (!PREFIX_REGEX.test(prefix)) {
+		throw new Error(
+			`Invalid ID prefix: "${prefix}". Use up to 63 lowercase letters and inner underscores.`,
+		);
+	}
+
+	const regex = new RegExp(`^${prefix}_${SUFFIX_PATTERN}$`);
+	const message = `Invalid ${prefix} ID`;
+
+	/**
+	 * Whether a value is an ID of this kind
+	 */
+	const is = (value: unknown): value is TypeId<Prefix> =>
+		typeof value === "string" && regex.test(value);
+
+	/**
+	 * The ID of a UUID, e.g. one read from a column of another type
+	 *
+	 * @throws Error if the string is not a UUID
+	 */
+	const fromUuid = (uuid: string): TypeId<Prefix> => {
+		if (!isValidUuid(uuid)) {
+			throw new Error(`Invalid UUID: ${uuid}`);
+		}
+
+		return `${prefix}_${encodeSuffix(uuid)}` as TypeId<Prefix>;
+	};
+
+	/**
+	 * The UUID an ID encodes, as it is stored
+	 */
+	const toUuid = (id: TypeId<Prefix>): string =>
+		decodeSuffix(id.slice(prefix.length + 1));
+
+	return {
+		prefix,
+		is,
+		fromUuid,
+		toUuid,
+
+		/**
+		 * A new ID of a time-ordered UUID v7
+		 */
+		generate: (): TypeId<Prefix> => fromUuid(generateUuidV7()),
+
+		/**
+		 * Checks untrusted input, e.g. an ID from a URL or a message queue
+		 */
+		parse: (value: string): Result<TypeId<Prefix>, ValidationError> =>
+			is(value)
+				? ok(value)
+				: err(new ValidationError(message, [{ field: "", message }])),
+
+		/**
+		 * Elysia schema of the ID for params, query and bodies
+		 */
+		schema: t.Unsafe<TypeId<Prefix>>(
+			t.String({
+				pattern: regex.source,
+				examples: [`${prefix}_01h455vb4pex5vsknk084sn02q`],
+				error: message,
+			}),
+		),
+
+		/**
+		 * zod schema of the ID
+		 */
+		zod: z.custom<TypeId<Prefix>>(is, { error: message }),
+
+		/**
+		 * Drizzle column storing the ID as a native uuid
+		 */
+		column: customType<{ data: TypeId<Prefix>; driverData: string }>({
+			dataType: () => "uuid",
+			toDriver: toUuid,
+			fromDriver: fromUuid,
+		}),
+	};
+}
@@ -1,15 +1,101 @@
-import { v4 as uuidv4, v7 as uuidv7 } from "uuid";
+import { v4 as uuidv4 } from "uuid";
 
 // Constants for UUID validation and processing
 const UUID_VERSION_4 = 4;
 const UUID_VERSION_7 = 7;
 const UUID_VALID_VERSIONS = [UUID_VERSION_4, UUID_VERSION_7] as const;
-const UUID_V7_TIMESTAMP_LENGTH = 12;
-const UUID_V7_HEX_BASE = 16;
+const UUID_HEX_LENGTH = 32;
+const UUID_HEX_BASE = 16;
+
+// Bit layout of RFC 9562: version in bits 76-79, variant from bit 63 down
+const VERSION_SHIFT = 76n;
+const VARIANT_SHIFT = 61n;
+const VERSION_MASK = 0xfn;
+const VARIANT_MASK = 0x7n;
+const RFC_VARIANT = 0b10n;
+
+// UUID v7: 48 bits of milliseconds, then 12 (rand_a) and 62 (rand_b) random
+const V7_TIMESTAMP_SHIFT = 80n;
+const V7_RAND_A_SHIFT = 64n;
+const V7_RAND_A_BITS = 12n;
+const V7_RAND_B_BITS = 62n;
+const V7_RANDOM_BITS = 74n;
+const V7_MAX_TIMESTAMP = 2 ** 48 - 1;
 
 // Pre-compiled regex for UUID validation (moved to top level for performance)
 const UUID_REGEX =
-	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const UUID_V4_REGEX =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const UUID_V7_REGEX =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const NIL_UUID = "00000000-0000-0000-0000-000000000000";
+const MAX_UUID = "ffffffff-ffff-ffff-ffff-ffffffffffff";
+
+export type UuidVariant = "ncs" | "rfc9562" | "microsoft" | "future";
+
+export interface ParsedUuid {
+	version: number;
+	variant: UuidVariant;
+	// Milliseconds since Unix epoch, for UUID v7 only
+	timestampMs?: number;
+	// Bits other than version, variant and timestamp, e.g. the 74 random bits
+	// of a v7 or the 122 of a v4
+	randomBits: bigint;
+}
+
+/**
+ * The 128-bit value of a UUID string
+ */
+export function uuidToBigInt(uuid: string): bigint {
+	return BigInt(`0x${uuid.replaceAll("-", "")}`);
+}
+
+/**
+ * The UUID string of a 128-bit value
+ */
+export function uuidFromBigInt(value: bigint): string {
+	const hex = value.toString(UUID_HEX_BASE).padStart(UUID_HEX_LENGTH, "0");
+
+	return [
+		hex.slice(0, 8),
+		hex.slice(8, 12),
+		hex.slice(12, 16),
+		hex.slice(16, 20),
+		hex.slice(20),
+	].join("-");
+}
+
+function bitMask(bits: bigint): bigint {
+	return (1n << bits) - 1n;
+}
+
+function randomBigInt(bits: bigint): bigint {
+	const bytes = crypto.getRandomValues(
+		new Uint8Array(Number((bits + 7n) / 8n)),
+	);
+	let value = 0n;
+
+	for (const byte of bytes) {
+		value = (value << 8n) | BigInt(byte);
+	}
+
+	return value & bitMask(bits);
+}
+
+function formatUuidV7(timestampMs: number, random: bigint): string {
+	return uuidFromBigInt(
+		(BigInt(timestampMs) << V7_TIMESTAMP_SHIFT) |
+			(BigInt(UUID_VERSION_7) << VERSION_SHIFT) |
+			((random >> V7_RAND_B_BITS) << V7_RAND_A_SHIFT) |
+			(RFC_VARIANT << V7_RAND_B_BITS) |
+			(random & bitMask(V7_RAND_B_BITS)),
+	);
+}
+
+// Last v7 handed out, so the next one sorts after it
+let lastTimestampMs = -1;
+let lastRandom = 0n;
 
 /**
  * Generate a UUID v7 (time-ordered UUID)
@@ -17,10 +103,30 @@ const UUID_REGEX =
  * UUID v7 is a time-ordered UUID that provides better database performance
  * due to its sequential nature and includes a timestamp component.
  *
+ * UUIDs are monotonic within the process: one generated in the same
+ * millisecond as the last, or after the clock moved back, increments the
+ * last one's random bits by a random step (RFC 9562, method 2).
+ *
  * @returns A UUID v7 string
  */
 export function generateUuidV7(): string {
-	return uuidv7();
+	const now = Date.now();
+
+	if (now > lastTimestampMs) {
+		lastTimestampMs = now;
+		// The top bit stays clear, leaving room for increments
+		lastRandom = randomBigInt(V7_RANDOM_BITS - 1n);
+	} else {
+		lastRandom += 1n + randomBigInt(32n);
+
+		// Exhausted the millisecond, borrow the next one
+		if (lastRandom > bitMask(V7_RANDOM_BITS)) {
+			lastTimestampMs += 1;
+			lastRandom = randomBigInt(V7_RANDOM_BITS - 1n);
+		}
+	}
+
+	return formatUuidV7(lastTimestampMs, lastRandom);
 }
 /**
  * Generate a UUID v4 (random UUID)
@@ -55,38 +161,138 @@ export function generateUuid(version: 4 | 7 = 7): string {
 	return generateUuidV7();
 }
 
+/**
+ * The smallest or largest UUID v7 of a moment, as bounds of a range query on
+ * a v7 keyed table, e.g. rows created on a day:
+ *
+ * ```ts
+ * between(table.id, uuidV7FromDate(start), uuidV7FromDate(end, "upper"))
+ * ```
+ *
+ * @param date - The moment, a Date or milliseconds since Unix epoch
+ * @param bound - "lower" for all random bits zero, "upper" for all one
+ * @returns A UUID v7 string
+ * @throws Error if the moment does not fit the 48-bit timestamp
+ */
+export function uuidV7FromDate(
+	date: Date | number,
+	bound: "lower" | "upper" = "lower",
+): string {
+	const timestampMs = typeof date === "number" ? date : date.getTime();
+
+	if (
+		!Number.isInteger(timestampMs) ||
+		timestampMs < 0 ||
+		timestampMs > V7_MAX_TIMESTAMP
+	) {
+		throw new Error(`Date out of UUID v7 range: ${String(date)}`);
+	}
+
+	return formatUuidV7(
+		timestampMs,
+		bound === "lower" ? 0n : bitMask(V7_RANDOM_BITS),
+	);
+}
+
 /**
  * Validate if a string is a valid UUID
  *
+ * Accepts versions 1 to 8 of the RFC 9562 variant, and the nil and max UUIDs.
+ *
  * @param uuid - The string to validate
  * @returns True if the string is a valid UUID, false otherwise
  */
 export function isValidUuid(uuid: string): boolean {
-	return UUID_REGEX.test(uuid);
+	const lower = uuid.toLowerCase();
+
+	return UUID_REGEX.test(uuid) || lower === NIL_UUID || lower === MAX_UUID;
 }
 
 /**
- * Extract timestamp from UUID v7
+ * Validate if a string is a valid UUID v4
  *
- * @param uuid - The UUID v7 string
- * @returns The timestamp in milliseconds since Unix epoch, or null if invalid
+ * @param uuid - The string to validate
+ * @returns True if the string is a UUID of version 4, false otherwise
  */
-export function extractTimestampFromUuidV7(uuid: string): number | null {
+export function isValidUuidV4(uuid: string): boolean {
+	return UUID_V4_REGEX.test(uuid);
+}
+
+/**
+ * Validate if a string is a valid UUID v7
+ *
+ * @param uuid - The string to validate
+ * @returns True if the string is a UUID of version 7, false otherwise
+ */
+export function isValidUuidV7(uuid: string): boolean {
+	return UUID_V7_REGEX.test(uuid);
+}
+
+function variantOf(value: bigint): UuidVariant {
+	const bits = (value >> VARIANT_SHIFT) & VARIANT_MASK;
+
+	if (bits >> 2n === 0n) {
+		return "ncs";
+	}
+
+	if (bits >> 1n === RFC_VARIANT) {
+		return "rfc9562";
+	}
+
+	return bits === 0b110n ? "microsoft" : "future";
+}
+
+/**
+ * Break a UUID into its fields
+ *
+ * @param uuid - The UUID string
+ * @returns The version, variant, timestamp (v7) and random bits, or null if
+ * the string is not a UUID
+ */
+export function parseUuid(uuid: string): ParsedUuid | null {
 	if (!isValidUuid(uuid)) {
 		return null;
 	}
 
-	try {
-		// UUID v7 has the timestamp in the first 48 bits
-		const hex = uuid.replace(/-/g, "");
-		const timestampHex = hex.substring(0, UUID_V7_TIMESTAMP_LENGTH);
-		const timestamp = Number.parseInt(timestampHex, UUID_V7_HEX_BASE);
+	const value = uuidToBigInt(uuid);
+	const version = Number((value >> VERSION_SHIFT) & VERSION_MASK);
+	const variant = variantOf(value);
 
-		// Convert from milliseconds to seconds and back to get the actual timestamp
-		return timestamp;
-	} catch {
-		return null;
+	if (version === UUID_VERSION_7 && variant === "rfc9562") {
+		return {
+			version,
+			variant,
+			timestampMs: Number(value >> V7_TIMESTAMP_SHIFT),
+			randomBits:
+				(((value >> V7_RAND_A_SHIFT) & bitMask(V7_RAND_A_BITS)) <<
+					V7_RAND_B_BITS) |
+				(value & bitMask(V7_RAND_B_BITS)),
+		};
 	}
+
+	// Everything but the 4 version and 2 variant bits
+	const withoutVersion =
+		((value >> (VERSION_SHIFT + 4n)) << VERSION_SHIFT) |
+		(value & bitMask(VERSION_SHIFT));
+
+	return {
+		version,
+		variant,
+		randomBits:
+			((withoutVersion >> (V7_RAND_B_BITS + 2n)) << V7_RAND_B_BITS) |
+			(withoutVersion & bitMask(V7_RAND_B_BITS)),
+	};
+}
+
+/**
+ * Extract timestamp from UUID v7
+ *
+ * @param uuid - The UUID v7 string
+ * @returns The timestamp in milliseconds since Unix epoch, or null if the
+ * string is not a UUID v7
+ */
+export function extractTimestampFromUuidV7(uuid: string): number | null {
+	return parseUuid(uuid)?.timestampMs ?? null;
 }
 
 /**
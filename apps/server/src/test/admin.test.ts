@@ -0,0 +1,189 @@
+import { Elysia } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { adminRouter } from "../routers/admin";
+import loggerIntegration from "../shared/integrations/logger";
+import { errorInterceptor } from "../shared/interceptors";
+import {
+	auth,
+	getLogLevels,
+	isAccessLogSampled,
+	type LogRecord,
+	onLog,
+	resetLogLevels,
+} from "../shared/lib";
+import { requestContextMiddleware } from "../shared/middleware";
+
+const app = new Elysia()
+	.use(requestContextMiddleware)
+	.use(loggerIntegration)
+	.use(errorInterceptor)
+	.use(adminRouter);
+
+function signInAs(role: string | undefined) {
+	vi.spyOn(auth.api, "getSession").mockResolvedValue(
+		(role && {
+			user: { id: "user-1", role },
+			session: { id: "session-1" },
+		}) as never,
+	);
+}
+
+async function request(method: string, body?: unknown) {
+	const response = await app.handle(
+		new Request("http://localhost/admin/logging", {
+			method,
+			headers: { "content-type": "application/json" },
+			body: body === undefined ? undefined : JSON.stringify(body),
+		}),
+	);
+
+	return { status: response.status, body: await response.json() };
+}
+
+beforeEach(() => {
+	vi.spyOn(console, "log").mockImplementation(() => {});
+	vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+	resetLogLevels();
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe("/admin/logging", () => {
+	it("answers 401 without a session", async () => {
+		signInAs(undefined);
+
+		expect((await request("GET")).status).toBe(401);
+	});
+
+	it("answers 403 for users who are not admins", async () => {
+		signInAs("user");
+
+		const { status } = await request("PATCH", { level: "trace" });
+
+		expect(status).toBe(403);
+		expect(getLogLevels().level).not.toBe("trace");
+	});
+
+	it("changes levels for admins", async () => {
+		signInAs("admin");
+
+		const { status, body } = await request("PATCH", {
+			level: "warn",
+			modules: { tracing: "trace" },
+			routes: { "/api/orders": "debug" },
+		});
+
+		expect(status).toBe(200);
+		expect(body.data).toMatchObject({
+			level: "warn",
+			modules: { tracing: "trace" },
+			routes: { "/api/orders": "debug" },
+		});
+		expect((await request("GET")).body.data).toEqual(body.data);
+	});
+
+	it("refuses a TTL outside its bounds", async () => {
+		signInAs("admin");
+
+		expect((await request("PATCH", { ttlMs: 10 })).status).toBe(400);
+		expect(
+			(await request("PATCH", { ttlMs: 25 * 60 * 60 * 1000 })).status,
+		).toBe(400);
+	});
+
+	it("reverts every change once the TTL elapses", async () => {
+		vi.useFakeTimers({
+			now: Date.UTC(2024, 6, 1),
+			toFake: ["Date", "setTimeout", "clearTimeout"],
+		});
+		signInAs("admin");
+		const startup = getLogLevels();
+
+		const { body } = await request("PATCH", {
+			level: "trace",
+			modules: { db: "debug" },
+			ttlMs: 60_000,
+		});
+
+		expect(body.data.expiresAt).toBe("2024-07-01T00:01:00.000Z");
+
+		vi.advanceTimersByTime(59_999);
+		expect(getLogLevels().level).toBe("trace");
+
+		vi.advanceTimersByTime(1);
+		expect(getLogLevels()).toEqual(startup);
+	});
+
+	it("restores the startup settings on DELETE", async () => {
+		signInAs("admin");
+		const startup = getLogLevels();
+
+		await request("PATCH", { level: "trace" });
+
+		expect((await request("DELETE")).body.data).toEqual(startup);
+	});
+});
+
+describe("access log sampling", () => {
+	const records: LogRecord[] = [];
+	let stopListening: () => void;
+
+	beforeEach(() => {
+		stopListening = onLog((record) => records.push(record));
+	});
+
+	afterEach(() => {
+		stopListening();
+		records.length = 0;
+	});
+
+	it("keeps the configured share of successful access logs", async () => {
+		signInAs("admin");
+		await request("PATCH", { accessLogSampleRate: 0.25 });
+
+		const random = vi.spyOn(Math, "random");
+
+		random.mockReturnValueOnce(0.2);
+		expect(isAccessLogSampled()).toBe(true);
+
+		random.mockReturnValueOnce(0.3);
+		expect(isAccessLogSampled()).toBe(false);
+	});
+
+	it("drops successful access logs at a rate of 0", async () => {
+		signInAs("admin");
+		await request("PATCH", { accessLogSampleRate: 0 });
+		records.length = 0;
+
+		await request("GET");
+		// Access logs are written after the response is sent
+		await new Promise((resolve) => setImmediate(resolve));
+
+		expect(records.map((record) => record.msg)).not.toContain(
+			"request completed",
+		);
+	});
+
+	it("writes every access log at a rate of 1", async () => {
+		signInAs("admin");
+
+		await request("GET");
+
+		await vi.waitFor(() =>
+			expect(records).toContainEqual(
+				expect.objectContaining({
+					msg: "request completed",
+					fields: expect.objectContaining({
+						path: "/admin/logging",
+						status: 200,
+						userId: "user-1",
+					}),
+				}),
+			),
+		);
+	});
+});
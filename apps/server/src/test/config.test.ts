@@ -0,0 +1,166 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import {
+	defineConfigSection,
+	envBoolean,
+	getConfigSnapshot,
+} from "../shared/config/config";
+import { ConfigError } from "../shared/errors";
+
+const schema = z.object({
+	host: z.string().default("localhost"),
+	port: z.coerce.number().int().positive().default(3000),
+	debug: envBoolean.default(false),
+	apiKey: z.string().min(8).optional(),
+});
+
+const env = {
+	host: "TEST_HOST",
+	port: "TEST_PORT",
+	debug: "TEST_DEBUG",
+	apiKey: "TEST_API_KEY",
+};
+
+// Sections register once, so every test defines its own
+let sectionCount = 0;
+
+function define(
+	options: Omit<Parameters<typeof defineConfigSection>[0], "name" | "schema">,
+) {
+	sectionCount += 1;
+
+	return defineConfigSection({
+		name: `section-${sectionCount}`,
+		schema,
+		...options,
+	}) as z.output<typeof schema>;
+}
+
+const secretsDir = mkdtempSync(join(tmpdir(), "config-test-"));
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+afterAll(() => {
+	rmSync(secretsDir, { recursive: true, force: true });
+});
+
+describe("defineConfigSection", () => {
+	it("starts from the schema's defaults", () => {
+		expect({ ...define({ env }) }).toEqual({
+			host: "localhost",
+			port: 3000,
+			debug: false,
+		});
+	});
+
+	it("layers the defaults of the current NODE_ENV over the schema's", () => {
+		const section = define({
+			env,
+			defaults: {
+				test: { port: 4000 },
+				production: { port: 80, debug: true },
+			},
+		});
+
+		expect(section.port).toBe(4000);
+		expect(section.debug).toBe(false);
+	});
+
+	it("layers environment variables over every default", () => {
+		vi.stubEnv("TEST_PORT", "5000");
+		vi.stubEnv("TEST_DEBUG", "true");
+
+		const section = define({ env, defaults: { test: { port: 4000 } } });
+
+		expect(section.port).toBe(5000);
+		expect(section.debug).toBe(true);
+		expect(section.host).toBe("localhost");
+	});
+
+	it("treats empty variables as unset", () => {
+		vi.stubEnv("TEST_PORT", "");
+
+		expect(define({ env, defaults: { test: { port: 4000 } } }).port).toBe(4000);
+	});
+
+	it('never reads "false" as true', () => {
+		vi.stubEnv("TEST_DEBUG", "false");
+
+		expect(define({ env, defaults: { test: { debug: true } } }).debug).toBe(
+			false,
+		);
+	});
+
+	it("reads a variable from the file named by <VAR>_FILE", () => {
+		const path = join(secretsDir, "api-key");
+
+		writeFileSync(path, "from-a-mounted-secret\n");
+		vi.stubEnv("TEST_API_KEY_FILE", path);
+
+		expect(define({ env }).apiKey).toBe("from-a-mounted-secret");
+	});
+
+	it("lists every invalid value by its variable", () => {
+		vi.stubEnv("TEST_PORT", "-1");
+		vi.stubEnv("TEST_DEBUG", "yes");
+		vi.stubEnv("TEST_API_KEY", "short");
+
+		let error: unknown;
+
+		try {
+			define({ env });
+		} catch (caught) {
+			error = caught;
+		}
+
+		expect(error).toBeInstanceOf(ConfigError);
+		expect((error as ConfigError).message).toMatch(
+			/^Invalid "section-\d+" configuration:\n {2}- TEST_PORT: /,
+		);
+		expect(
+			(error as ConfigError).issues.map((issue) => issue.split(":")[0]),
+		).toEqual(["TEST_PORT", "TEST_DEBUG", "TEST_API_KEY"]);
+	});
+
+	it("refuses a variable set both directly and as a file", () => {
+		vi.stubEnv("TEST_API_KEY", "direct-value");
+		vi.stubEnv("TEST_API_KEY_FILE", join(secretsDir, "api-key"));
+
+		expect(() => define({ env })).toThrow(
+			"TEST_API_KEY: set either TEST_API_KEY or TEST_API_KEY_FILE, not both",
+		);
+	});
+
+	it("refuses an unreadable file", () => {
+		vi.stubEnv("TEST_API_KEY_FILE", join(secretsDir, "missing"));
+
+		expect(() => define({ env })).toThrow("TEST_API_KEY: cannot read");
+	});
+
+	it("refuses a section registered twice", () => {
+		defineConfigSection({ name: "twice", schema });
+
+		expect(() => defineConfigSection({ name: "twice", schema })).toThrow(
+			'Config section "twice" is already registered',
+		);
+	});
+
+	it("freezes the section and masks its secrets when printed", () => {
+		vi.stubEnv("TEST_API_KEY", "very-secret-key");
+
+		const section = define({ env, secrets: ["apiKey"] });
+
+		expect(Object.isFrozen(section)).toBe(true);
+		expect(section.apiKey).toBe("very-secret-key");
+		expect(JSON.parse(JSON.stringify(section)).apiKey).toBe("[REDACTED]");
+		expect(getConfigSnapshot()[`section-${sectionCount}`]?.apiKey).toBe(
+			"[REDACTED]",
+		);
+	});
+});
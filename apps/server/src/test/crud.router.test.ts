@@ -0,0 +1,272 @@
+import { pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { Elysia } from "elysia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import { createCrudRouter } from "../routers/crud";
+import { ConflictError } from "../shared/errors";
+import { errorInterceptor } from "../shared/interceptors";
+import { requestContextMiddleware } from "../shared/middleware";
+
+// Queries go to a fake driver answering with the queued rows
+const database = vi.hoisted(() => ({
+	queries: [] as { sql: string; params: unknown[] }[],
+	results: [] as unknown[][][],
+}));
+
+vi.mock("../db", async () => {
+	const { drizzle } = await import("drizzle-orm/pg-proxy");
+
+	return {
+		db: drizzle(async (sql, params) => {
+			database.queries.push({ sql, params });
+
+			return { rows: database.results.shift() ?? [] };
+		}),
+	};
+});
+
+const project = pgTable("project", {
+	id: uuid("id").primaryKey(),
+	name: text("name").notNull(),
+	apiKey: text("api_key"),
+	ownerId: text("owner_id"),
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+const ID = "0190a5b4-5d3c-7cc1-8a3f-6f1f3c9e2b10";
+const ROW = [ID, "Apollo", "secret", "user-1", "2024-07-01 10:00:00.123456"];
+
+function createApp(options: Partial<Parameters<typeof createCrudRouter>[0]>) {
+	return new Elysia()
+		.use(requestContextMiddleware)
+		.use(errorInterceptor)
+		.use(
+			createCrudRouter({
+				table: project,
+				prefix: "/projects",
+				name: "Project",
+				schemas: {
+					create: z.object({
+						name: z.string().min(1),
+						ownerId: z.string().optional(),
+					}),
+				},
+				masks: { read: ["apiKey"], write: ["ownerId"] },
+				list: { fields: { name: { filter: ["contains"], sort: true } } },
+				...options,
+			}),
+		);
+}
+
+async function request(
+	app: { handle: (request: Request) => Promise<Response> },
+	path: string,
+	init?: RequestInit & { json?: unknown },
+) {
+	const response = await app.handle(
+		new Request(`http://localhost${path}`, {
+			...init,
+			...(init?.json !== undefined && {
+				body: JSON.stringify(init.json),
+				headers: { "content-type": "application/json" },
+			}),
+		}),
+	);
+	const text = await response.text();
+
+	return { status: response.status, body: text ? JSON.parse(text) : text };
+}
+
+describe("createCrudRouter", () => {
+	beforeEach(() => {
+		database.queries = [];
+		database.results = [];
+	});
+
+	it("lists filtered rows without read-masked columns", async () => {
+		database.results.push([ROW], [[1]]);
+
+		const { status, body } = await request(
+			createApp({}),
+			"/projects?filter[name][contains]=apo&sort=-name&limit=10",
+		);
+
+		expect(status).toBe(200);
+		expect(body.data).toEqual([
+			{
+				id: ID,
+				name: "Apollo",
+				ownerId: "user-1",
+				createdAt: expect.any(String),
+			},
+		]);
+		expect(body.pagination).toEqual({
+			page: 1,
+			limit: 10,
+			total: 1,
+			totalPages: 1,
+		});
+		expect(database.queries[0]?.sql).toContain('"project"."name" ilike $1');
+		expect(database.queries[0]?.params).toContain("%apo%");
+	});
+
+	it("rejects filters the resource does not allow", async () => {
+		const { status, body } = await request(
+			createApp({}),
+			"/projects?filter[apiKey]=secret",
+		);
+
+		expect(status).toBe(422);
+		expect(body.errors).toEqual([
+			expect.objectContaining({ field: "filter.apiKey.eq" }),
+		]);
+		expect(database.queries).toHaveLength(0);
+	});
+
+	it("rejects an ID that is not a UUID before querying", async () => {
+		const { status } = await request(createApp({}), "/projects/not-a-uuid");
+
+		expect(status).toBe(400);
+		expect(database.queries).toHaveLength(0);
+	});
+
+	it("answers 404 for a missing row", async () => {
+		const { status, body } = await request(createApp({}), `/projects/${ID}`);
+
+		expect(status).toBe(404);
+		expect(body.code).toBe("NOT_FOUND");
+	});
+
+	it("creates through the hooks", async () => {
+		const afterCreate = vi.fn();
+
+		database.results.push([ROW]);
+
+		const { status, body } = await request(
+			createApp({
+				hooks: {
+					beforeCreate: (input) => ({ ...input, id: ID, ownerId: "user-1" }),
+					afterCreate,
+				},
+			}),
+			"/projects",
+			{ method: "POST", json: { name: "Apollo" } },
+		);
+
+		expect(status).toBe(201);
+		expect(body.data).not.toHaveProperty("apiKey");
+		expect(database.queries[0]?.params).toEqual(
+			expect.arrayContaining([ID, "Apollo", "user-1"]),
+		);
+		expect(afterCreate).toHaveBeenCalledWith(
+			expect.objectContaining({ id: ID }),
+			expect.objectContaining({ user: undefined }),
+		);
+	});
+
+	it("refuses write-masked fields", async () => {
+		const { status, body } = await request(createApp({}), "/projects", {
+			method: "POST",
+			json: { name: "Apollo", ownerId: "someone-else" },
+		});
+
+		expect(status).toBe(422);
+		expect(body.errors).toEqual([
+			expect.objectContaining({ field: "ownerId", code: "invalid_key" }),
+		]);
+		expect(database.queries).toHaveLength(0);
+	});
+
+	it("refuses an update without writable fields", async () => {
+		const { status, body } = await request(createApp({}), `/projects/${ID}`, {
+			method: "PATCH",
+			json: {},
+		});
+
+		expect(status).toBe(422);
+		expect(body.code).toBe("VALIDATION_FAILED");
+		expect(database.queries).toHaveLength(0);
+	});
+
+	it("refuses to list columns masked on read", () => {
+		expect(() =>
+			createCrudRouter({
+				table: project,
+				prefix: "/projects",
+				name: "Project",
+				schemas: { create: z.object({ name: z.string() }) },
+				masks: { read: ["apiKey"] },
+				// @ts-expect-error masked columns are not listable
+				list: { fields: { apiKey: { filter: ["startsWith"] } } },
+			}),
+		).toThrow("apiKey, which is masked on read");
+	});
+
+	it("lets a before hook refuse a delete", async () => {
+		const { status } = await request(
+			createApp({
+				hooks: {
+					beforeDelete: () => {
+						throw new ConflictError("Project is in use");
+					},
+				},
+			}),
+			`/projects/${ID}`,
+			{ method: "DELETE" },
+		);
+
+		expect(status).toBe(409);
+		expect(database.queries).toHaveLength(0);
+	});
+
+	it("deletes with 204", async () => {
+		database.results.push([ROW]);
+
+		const { status } = await request(createApp({}), `/projects/${ID}`, {
+			method: "DELETE",
+		});
+
+		expect(status).toBe(204);
+	});
+
+	it("leaves out operations without permission", async () => {
+		const { status } = await request(
+			createApp({ permissions: { delete: false } }),
+			`/projects/${ID}`,
+			{ method: "DELETE" },
+		);
+
+		expect(status).toBe(404);
+	});
+
+	it("requires a session when auth is set", async () => {
+		const { status } = await request(createApp({ auth: true }), "/projects");
+
+		expect(status).toBe(401);
+	});
+
+	it("documents the responses of every operation", () => {
+		const router = createCrudRouter({
+			table: project,
+			prefix: "/projects",
+			name: "Project",
+			schemas: { create: z.object({ name: z.string() }) },
+			masks: { read: ["apiKey"] },
+		});
+		const responses = Object.fromEntries(
+			router.routes.map((route) => [
+				`${route.method} ${route.path}`,
+				Object.keys(route.hooks.response ?? {}),
+			]),
+		);
+
+		expect(responses).toEqual({
+			"GET /projects/": ["200", "400", "422"],
+			"GET /projects/:id": ["200", "400", "404"],
+			"POST /projects/": ["201", "400", "409", "422"],
+			"PATCH /projects/:id": ["200", "400", "404", "409", "422"],
+			"DELETE /projects/:id": ["204", "400", "404"],
+		});
+	});
+});
@@ -0,0 +1,191 @@
+import { DrizzleQueryError } from "drizzle-orm";
+import postgres from "postgres";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+	ConflictError,
+	DatabaseError,
+	NotFoundError,
+	ServiceUnavailableError,
+	translateDatabaseError,
+	tryQuery,
+	ValidationError,
+	withDatabaseRetry,
+} from "../shared/errors";
+
+// As drizzle throws it: the driver error wrapped in a DrizzleQueryError
+function queryError(fields: Partial<postgres.PostgresError>): Error {
+	return new DrizzleQueryError(
+		"insert into ...",
+		[],
+		new postgres.PostgresError({ message: "failed", ...fields } as never),
+	);
+}
+
+describe("translateDatabaseError", () => {
+	it.each([
+		[
+			"a unique violation on a compound key",
+			{
+				code: "23505",
+				constraint_name: "member_org_id_user_id_unique",
+				detail: "Key (org_id, user_id)=(1, 2) already exists.",
+			},
+			ConflictError,
+			"orgId, userId already exists",
+			{
+				constraint: "member_org_id_user_id_unique",
+				column: "orgId, userId",
+			},
+		],
+		[
+			"a unique violation without detail",
+			{ code: "23505", constraint_name: "user_email_unique" },
+			ConflictError,
+			"Resource conflict",
+			{ constraint: "user_email_unique", column: undefined },
+		],
+		[
+			"a delete of a row still referenced",
+			{
+				code: "23503",
+				constraint_name: "session_user_id_user_id_fk",
+				detail: 'Key (id)=(abc) is still referenced from table "session".',
+			},
+			ConflictError,
+			"Still referenced by session",
+			{ constraint: "session_user_id_user_id_fk", referencedBy: "session" },
+		],
+		[
+			"a reference to a missing row",
+			{
+				code: "23503",
+				constraint_name: "post_author_id_user_id_fk",
+				detail: 'Key (author_id)=(abc) is not present in table "user".',
+			},
+			ValidationError,
+			"Referenced resource does not exist",
+			{
+				errors: [
+					{
+						field: "authorId",
+						message: "does not reference an existing resource",
+					},
+				],
+			},
+		],
+		[
+			"a not-null violation",
+			{ code: "23502", column_name: "display_name" },
+			ValidationError,
+			"displayName is required",
+			{ errors: [{ field: "displayName", message: "is required" }] },
+		],
+		[
+			"a query timeout",
+			{ code: "57014" },
+			ServiceUnavailableError,
+			"Database query timed out",
+			undefined,
+		],
+	])("translates %s", (_, fields, type, message, details) => {
+		const error = translateDatabaseError(queryError(fields));
+
+		expect(error).toBeInstanceOf(type);
+		expect(error.message).toBe(message);
+		expect(error.details).toEqual(details);
+	});
+
+	it("never echoes constraint values", () => {
+		const error = translateDatabaseError(
+			queryError({
+				code: "23505",
+				detail: "Key (email)=(jane@example.com) already exists.",
+			}),
+		);
+
+		expect(JSON.stringify(error.details)).not.toContain("jane@example.com");
+		expect(error.message).not.toContain("jane@example.com");
+	});
+
+	it.each([
+		["serialization failures", "40001"],
+		["deadlocks", "40P01"],
+	])("asks the client to retry %s", (_, code) => {
+		const error = translateDatabaseError(queryError({ code }));
+
+		expect(error).toBeInstanceOf(ServiceUnavailableError);
+		expect(error.status).toBe(503);
+		expect(error.headers).toEqual({ "retry-after": "1" });
+	});
+
+	it("answers 503 without Retry-After when a query times out", () => {
+		const error = translateDatabaseError(queryError({ code: "57014" }));
+
+		expect(error.status).toBe(503);
+		expect(error.headers).toEqual({});
+	});
+
+	it("hides unknown failures behind a DatabaseError", () => {
+		const error = translateDatabaseError(queryError({ code: "42P01" }));
+
+		expect(error).toBeInstanceOf(DatabaseError);
+		expect(error.expose).toBe(false);
+		expect((error as DatabaseError).sqlState).toBe("42P01");
+	});
+
+	it("passes HttpErrors through", () => {
+		const error = new NotFoundError("User");
+
+		expect(translateDatabaseError(error)).toBe(error);
+	});
+});
+
+describe("tryQuery", () => {
+	it("returns the rows as Ok", async () => {
+		const result = await tryQuery(async () => [{ id: 1 }]);
+
+		expect(result.unwrap()).toEqual([{ id: 1 }]);
+	});
+
+	it("returns the translated failure as Err", async () => {
+		const result = await tryQuery(async () => {
+			throw queryError({ code: "23505", constraint_name: "user_email_unique" });
+		});
+
+		expect(result.unwrapErr()).toBeInstanceOf(ConflictError);
+	});
+});
+
+describe("withDatabaseRetry", () => {
+	it("runs the transaction again after a serialization failure", async () => {
+		const transaction = vi
+			.fn()
+			.mockRejectedValueOnce(queryError({ code: "40001" }))
+			.mockRejectedValueOnce(queryError({ code: "40P01" }))
+			.mockResolvedValueOnce("committed");
+
+		await expect(
+			withDatabaseRetry(transaction, { baseDelayMs: 0 }),
+		).resolves.toBe("committed");
+		expect(transaction).toHaveBeenCalledTimes(3);
+	});
+
+	it("gives up after the last attempt", async () => {
+		const failure = queryError({ code: "40001" });
+		const transaction = vi.fn().mockRejectedValue(failure);
+
+		await expect(
+			withDatabaseRetry(transaction, { attempts: 4, baseDelayMs: 0 }),
+		).rejects.toBe(failure);
+		expect(transaction).toHaveBeenCalledTimes(4);
+	});
+
+	it("never retries other failures", async () => {
+		const failure = queryError({ code: "23505" });
+		const transaction = vi.fn().mockRejectedValue(failure);
+
+		await expect(withDatabaseRetry(transaction)).rejects.toBe(failure);
+		expect(transaction).toHaveBeenCalledTimes(1);
+	});
+});
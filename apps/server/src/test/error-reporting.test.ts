@@ -0,0 +1,411 @@
+import { Elysia } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { clientErrorsRouter } from "../routers/client-errors";
+import { errorInterceptor } from "../shared/interceptors";
+import {
+	type ErrorReport,
+	errorReporter,
+	fingerprintOf,
+	logger,
+	MemoryErrorSink,
+	parseStack,
+	SentryErrorSink,
+} from "../shared/lib";
+import { requestContextMiddleware } from "../shared/middleware";
+
+const sink = new MemoryErrorSink();
+// The rate limits outlive a test, so every test gets its own hour
+let hour = 0;
+
+function exception(message: string, stack: string): ErrorReport["exception"] {
+	return { type: "TypeError", message, stack, frames: parseStack(stack) };
+}
+
+beforeEach(() => {
+	hour += 1;
+	vi.useFakeTimers({
+		now: Date.UTC(2024, 6, 1) + hour * 3_600_000,
+		toFake: ["Date"],
+	});
+	vi.spyOn(console, "log").mockImplementation(() => {});
+	vi.spyOn(console, "error").mockImplementation(() => {});
+	errorReporter.configure({
+		sink,
+		environment: "test",
+		release: "1.2.3",
+		maxPerMinute: 60,
+		breadcrumbs: 20,
+	});
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+	sink.clear();
+});
+
+describe("parseStack", () => {
+	it("reads V8 stacks and marks dependencies", () => {
+		expect(
+			parseStack(
+				[
+					"TypeError: boom",
+					"    at handler (/app/src/routers/user.ts:12:5)",
+					"    at /app/node_modules/elysia/dist/index.js:1:200",
+					"    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)",
+				].join("\n"),
+			),
+		).toEqual([
+			{
+				function: "handler",
+				filename: "/app/src/routers/user.ts",
+				lineno: 12,
+				colno: 5,
+				inApp: true,
+			},
+			{
+				filename: "/app/node_modules/elysia/dist/index.js",
+				lineno: 1,
+				colno: 200,
+				inApp: false,
+			},
+			{
+				function: "process.processTicksAndRejections",
+				filename: "node:internal/process/task_queues",
+				lineno: 95,
+				colno: 5,
+				inApp: false,
+			},
+		]);
+	});
+
+	it("reads Firefox and Safari stacks", () => {
+		expect(
+			parseStack(
+				[
+					"onClick@https://app.example.com/_next/static/chunks/page.js:1:200",
+					"@https://app.example.com/_next/static/chunks/main.js:2:30",
+				].join("\n"),
+			),
+		).toEqual([
+			{
+				function: "onClick",
+				filename: "https://app.example.com/_next/static/chunks/page.js",
+				lineno: 1,
+				colno: 200,
+				inApp: true,
+			},
+			{
+				filename: "https://app.example.com/_next/static/chunks/main.js",
+				lineno: 2,
+				colno: 30,
+				inApp: true,
+			},
+		]);
+	});
+
+	it("skips lines that are not frames", () => {
+		expect(parseStack("TypeError: boom\n    at <anonymous>")).toEqual([]);
+		expect(parseStack(undefined)).toEqual([]);
+	});
+});
+
+describe("fingerprintOf", () => {
+	it("keeps the group when only line numbers change", () => {
+		expect(
+			fingerprintOf(exception("boom", "    at handler (/app/src/a.ts:12:5)")),
+		).toBe(
+			fingerprintOf(exception("boom", "    at handler (/app/src/a.ts:40:9)")),
+		);
+	});
+
+	it("keeps the group across builds with new chunk hashes", () => {
+		expect(
+			fingerprintOf(
+				exception(
+					"boom",
+					"onClick@https://app.example.com/_next/static/chunks/page-3f9a1c2b4d5e6f70.js?v=1:1:200",
+				),
+			),
+		).toBe(
+			fingerprintOf(
+				exception(
+					"boom",
+					"onClick@https://app.example.com/_next/static/chunks/page-a01b2c3d4e5f6789.js?v=2:1:310",
+				),
+			),
+		);
+	});
+
+	it("ignores ids and numbers in messages without in-app frames", () => {
+		expect(
+			fingerprintOf(
+				exception(
+					"User 0190a5b4-5d3c-7cc1-8a3f-6f1f3c9e2b10 not found after 3 tries",
+					"",
+				),
+			),
+		).toBe(
+			fingerprintOf(
+				exception(
+					"User 0190a5b4-5d3c-7cc1-8a3f-000000000000 not found after 5 tries",
+					"",
+				),
+			),
+		);
+	});
+
+	it("splits errors thrown from different functions", () => {
+		expect(
+			fingerprintOf(exception("boom", "    at handler (/app/src/a.ts:12:5)")),
+		).not.toBe(
+			fingerprintOf(exception("boom", "    at other (/app/src/a.ts:12:5)")),
+		);
+	});
+});
+
+describe("errorReporter", () => {
+	it("captures the error with its context", async () => {
+		const report = await errorReporter.capture(new TypeError("boom"), {
+			requestId: "req-1",
+			method: "GET",
+			url: "/users",
+			route: "/users",
+			tags: { feature: "users" },
+		});
+
+		expect(sink.reports).toEqual([report]);
+		expect(report).toMatchObject({
+			source: "server",
+			exception: { type: "TypeError", message: "boom" },
+			request: { method: "GET", url: "/users", route: "/users" },
+			requestId: "req-1",
+			environment: "test",
+			release: "1.2.3",
+			tags: { feature: "users" },
+		});
+		expect(report?.exception.frames[0]?.inApp).toBe(true);
+	});
+
+	it("captures nothing without a sink", async () => {
+		errorReporter.configure({ environment: "test", release: "1.2.3" });
+
+		expect(await errorReporter.capture(new Error("boom"))).toBeUndefined();
+	});
+
+	it("attaches only the log lines of the failing request", async () => {
+		logger.child({ requestId: "req-a" }).info("Loading user");
+		logger.child({ requestId: "req-b" }).info("Unrelated");
+		logger.child({ requestId: "req-a" }).warn("User missing");
+
+		const report = await errorReporter.capture(new Error("boom"), {
+			requestId: "req-a",
+		});
+
+		expect(report?.breadcrumbs.map((crumb) => crumb.message)).toEqual([
+			"Loading user",
+			"User missing",
+		]);
+	});
+
+	it("attaches the latest log lines outside a request", async () => {
+		errorReporter.configure({
+			sink,
+			environment: "test",
+			release: "1.2.3",
+			breadcrumbs: 2,
+		});
+		logger.info("First");
+		logger.info("Second");
+		logger.info("Third");
+
+		const report = await errorReporter.capture(new Error("boom"));
+
+		expect(report?.breadcrumbs.map((crumb) => crumb.message)).toEqual([
+			"Second",
+			"Third",
+		]);
+	});
+
+	it("limits reports per fingerprint to a tenth of the total", async () => {
+		errorReporter.configure({
+			sink,
+			environment: "test",
+			release: "1.2.3",
+			maxPerMinute: 20,
+		});
+
+		for (let attempt = 0; attempt < 5; attempt += 1) {
+			await errorReporter.capture(new Error("boom"), { fingerprint: "storm" });
+		}
+		await errorReporter.capture(new Error("other"), { fingerprint: "other" });
+
+		expect(sink.reports.map((report) => report.fingerprint)).toEqual([
+			"storm",
+			"storm",
+			"other",
+		]);
+	});
+
+	it("limits the total reports per minute", async () => {
+		errorReporter.configure({
+			sink,
+			environment: "test",
+			release: "1.2.3",
+			maxPerMinute: 10,
+		});
+
+		for (let index = 0; index < 15; index += 1) {
+			await errorReporter.capture(new Error("boom"), {
+				fingerprint: `total-${index}`,
+			});
+		}
+
+		expect(sink.reports).toHaveLength(10);
+
+		vi.advanceTimersByTime(60_000);
+		await errorReporter.capture(new Error("boom"), { fingerprint: "later" });
+
+		expect(sink.reports).toHaveLength(11);
+	});
+});
+
+describe("SentryErrorSink", () => {
+	it("posts the report as an envelope", async () => {
+		const fetch = vi
+			.spyOn(globalThis, "fetch")
+			.mockResolvedValue(new Response(null, { status: 200 }));
+		const dsn = "https://public@sentry.example.com/relay/42";
+		const report = await errorReporter.capture(new TypeError("boom"), {
+			requestId: "req-1",
+			traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+			userId: "user-1",
+			method: "POST",
+			url: "/orders",
+			route: "/orders",
+			userAgent: "Mozilla/5.0",
+		});
+
+		await new SentryErrorSink(dsn).send(report as ErrorReport);
+
+		const [url, init] = fetch.mock.calls[0] ?? [];
+		const [header, item, event] = String(init?.body)
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		const frames = event.exception.values[0].stacktrace.frames;
+
+		expect(url).toBe("https://sentry.example.com/relay/api/42/envelope/");
+		expect(init?.headers).toEqual({
+			"Content-Type": "application/x-sentry-envelope",
+			"X-Sentry-Auth":
+				"Sentry sentry_version=7, sentry_key=public, sentry_client=sunny-mono-server/1.0",
+		});
+		expect(header).toMatchObject({ event_id: report?.eventId, dsn });
+		expect(item).toEqual({ type: "event" });
+		expect(event).toMatchObject({
+			event_id: report?.eventId,
+			timestamp: Date.parse(report?.timestamp ?? "") / 1000,
+			platform: "node",
+			level: "error",
+			environment: "test",
+			release: "1.2.3",
+			fingerprint: [report?.fingerprint],
+			exception: { values: [{ type: "TypeError", value: "boom" }] },
+			request: {
+				method: "POST",
+				url: "/orders",
+				headers: { "User-Agent": "Mozilla/5.0" },
+			},
+			user: { id: "user-1" },
+			contexts: { trace: { trace_id: "4bf92f3577b34da6a3ce929d0e0e4736" } },
+			tags: { source: "server", request_id: "req-1", route: "/orders" },
+		});
+		// Outermost frame first
+		expect(frames.at(-1)).toMatchObject({
+			filename: report?.exception.frames[0]?.filename,
+			in_app: true,
+		});
+	});
+
+	it("fails when the envelope is rejected", async () => {
+		vi.spyOn(globalThis, "fetch").mockResolvedValue(
+			new Response(null, { status: 429 }),
+		);
+		const report = await errorReporter.capture(new Error("boom"));
+
+		await expect(
+			new SentryErrorSink("https://public@sentry.example.com/42").send(
+				report as ErrorReport,
+			),
+		).rejects.toThrow("Sentry envelope rejected with status 429");
+	});
+
+	it("refuses a DSN without key or project", () => {
+		expect(() => new SentryErrorSink("https://sentry.example.com/42")).toThrow(
+			"Sentry DSN must look like",
+		);
+	});
+});
+
+describe("client errors route", () => {
+	const app = new Elysia()
+		.use(requestContextMiddleware)
+		.use(errorInterceptor)
+		.use(clientErrorsRouter);
+
+	function post(body: unknown) {
+		return app.handle(
+			new Request("http://localhost/client-errors", {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					"user-agent": "Mozilla/5.0",
+				},
+				body: JSON.stringify(body),
+			}),
+		);
+	}
+
+	it("reports client crashes as client errors", async () => {
+		const response = await post({
+			name: "TypeError",
+			message: "x is undefined",
+			stack:
+				"render@https://app.example.com/_next/static/chunks/page-3f9a1c2b4d5e6f70.js:1:200",
+			digest: "2145871893",
+			url: "https://app.example.com/orders",
+		});
+		const [report] = sink.reports;
+
+		expect(response.status).toBe(202);
+		expect(await response.json()).toMatchObject({
+			success: true,
+			data: { eventId: report?.eventId },
+		});
+		expect(report).toMatchObject({
+			source: "client",
+			exception: {
+				type: "TypeError",
+				message: "x is undefined",
+				frames: [{ function: "render", inApp: true }],
+			},
+			request: {
+				url: "https://app.example.com/orders",
+				userAgent: "Mozilla/5.0",
+			},
+			tags: { digest: "2145871893" },
+		});
+	});
+
+	it("refuses reports without a message", async () => {
+		const response = await post({ name: "TypeError" });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			code: "INVALID_REQUEST",
+			errors: [expect.objectContaining({ field: "message" })],
+		});
+		expect(sink.reports).toEqual([]);
+	});
+});
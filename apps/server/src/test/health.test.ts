@@ -0,0 +1,196 @@
+import { Elysia } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { healthRouter } from "../routers/health";
+import {
+	registerHealthCheck,
+	runHealthChecks,
+	unregisterHealthCheck,
+} from "../shared/lib";
+
+// Queries go to a fake driver that fails while the database is "down"
+const database = vi.hoisted(() => ({
+	down: false,
+	queries: [] as string[],
+}));
+
+vi.mock("../db", async () => {
+	const { drizzle } = await import("drizzle-orm/pg-proxy");
+
+	return {
+		db: drizzle(async (sql) => {
+			database.queries.push(sql);
+
+			if (database.down) {
+				throw new Error("connection refused");
+			}
+
+			return { rows: [] };
+		}),
+	};
+});
+
+beforeEach(() => {
+	database.down = false;
+	database.queries = [];
+});
+
+afterEach(() => {
+	for (const name of ["slow", "cache", "search", "heartbeat"]) {
+		unregisterHealthCheck(name);
+	}
+});
+
+describe("runHealthChecks", () => {
+	it("is healthy when every check passes", async () => {
+		const report = await runHealthChecks("ready");
+
+		expect(report.status).toBe("healthy");
+		expect(report.checks.map((check) => check.name)).toEqual([
+			"shutdown",
+			"database",
+			"auth",
+		]);
+	});
+
+	it("reads the session table for the auth check", async () => {
+		await runHealthChecks("ready");
+
+		expect(database.queries).toContain('select "id" from "session" limit $1');
+	});
+
+	it("is unhealthy when a critical check fails", async () => {
+		database.down = true;
+
+		const report = await runHealthChecks("ready");
+
+		expect(report.status).toBe("unhealthy");
+		expect(report.checks).toContainEqual(
+			expect.objectContaining({
+				name: "database",
+				status: "unhealthy",
+				critical: true,
+				error: expect.any(String),
+			}),
+		);
+	});
+
+	it("is only degraded by non-critical failures", async () => {
+		registerHealthCheck({
+			name: "cache",
+			critical: false,
+			check: () => {
+				throw new Error("cache unreachable");
+			},
+		});
+
+		expect((await runHealthChecks("ready")).status).toBe("degraded");
+	});
+
+	it("is degraded by checks reporting a soft failure", async () => {
+		registerHealthCheck({ name: "search", check: () => "degraded" });
+
+		expect((await runHealthChecks("ready")).status).toBe("degraded");
+	});
+
+	it("fails checks that outlive their timeout", async () => {
+		registerHealthCheck({
+			name: "slow",
+			timeoutMs: 10,
+			check: () => new Promise(() => {}),
+		});
+
+		const report = await runHealthChecks("ready");
+
+		expect(report.status).toBe("unhealthy");
+		expect(report.checks).toContainEqual(
+			expect.objectContaining({
+				name: "slow",
+				status: "unhealthy",
+				timeoutMs: 10,
+				error: "Timed out after 10ms",
+			}),
+		);
+	});
+
+	it("runs only the checks of the probe", async () => {
+		registerHealthCheck({
+			name: "heartbeat",
+			probes: ["live"],
+			check: () => "healthy",
+		});
+		database.down = true;
+
+		const report = await runHealthChecks("live");
+
+		expect(report.status).toBe("healthy");
+		expect(report.checks.map((check) => check.name)).toEqual(["heartbeat"]);
+	});
+
+	it("keeps the startup probe healthy once it has passed", async () => {
+		database.down = true;
+		expect((await runHealthChecks("startup")).status).toBe("unhealthy");
+
+		database.down = false;
+		expect((await runHealthChecks("startup")).status).toBe("healthy");
+
+		database.down = true;
+		expect(await runHealthChecks("startup")).toEqual({
+			probe: "startup",
+			status: "healthy",
+			checks: [],
+		});
+	});
+});
+
+describe("health routes", () => {
+	const app = new Elysia().use(healthRouter);
+
+	async function get(path: string) {
+		const response = await app.handle(new Request(`http://localhost${path}`));
+
+		return { status: response.status, body: await response.json() };
+	}
+
+	it("answers 200 while healthy", async () => {
+		const { status, body } = await get("/health/ready");
+
+		expect(status).toBe(200);
+		expect(body).toMatchObject({
+			success: true,
+			data: { probe: "ready", status: "healthy" },
+		});
+	});
+
+	it("answers 200 while degraded", async () => {
+		registerHealthCheck({ name: "search", check: () => "degraded" });
+
+		const { status, body } = await get("/health");
+
+		expect(status).toBe(200);
+		expect(body.data.status).toBe("degraded");
+	});
+
+	it("answers 503 with the failing checks while unhealthy", async () => {
+		database.down = true;
+
+		const { status, body } = await get("/health/ready");
+
+		expect(status).toBe(503);
+		expect(body).toMatchObject({
+			success: false,
+			data: { status: "unhealthy" },
+		});
+		expect(
+			body.data.checks
+				.filter((check: { status: string }) => check.status === "unhealthy")
+				.map((check: { name: string }) => check.name),
+		).toEqual(["database", "auth"]);
+	});
+
+	it("keeps liveness free of dependencies", async () => {
+		database.down = true;
+
+		expect((await get("/health/live")).status).toBe(200);
+	});
+});
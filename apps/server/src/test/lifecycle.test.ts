@@ -0,0 +1,126 @@
+import type { AnyElysia } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Lifecycle = typeof import("../shared/lib/lifecycle");
+
+let lifecycle: Lifecycle;
+let signal: (name: NodeJS.Signals) => void;
+let exit: ReturnType<typeof vi.fn>;
+const events: string[] = [];
+
+function at(event: string) {
+	events.push(`${performance.now()} ${event}`);
+}
+
+// Shutdown yields to setImmediate, which stays real, before the hooks run
+async function settle(ms: number) {
+	await vi.advanceTimersByTimeAsync(ms);
+	await new Promise((resolve) => setImmediate(resolve));
+	await vi.advanceTimersByTimeAsync(0);
+}
+
+function createApp(stop: () => Promise<void>) {
+	return {
+		server: {
+			pendingRequests: 0,
+			stop: async () => at("force stop"),
+		},
+		stop,
+		listen: vi.fn(),
+	} as unknown as AnyElysia;
+}
+
+function start(app: AnyElysia, shutdownDelayMs = 5000) {
+	lifecycle.startServer(app, {
+		port: 3001,
+		shutdownDelayMs,
+		shutdownTimeoutMs: 25_000,
+	});
+}
+
+describe("startServer", () => {
+	beforeEach(async () => {
+		vi.useFakeTimers({
+			toFake: ["setTimeout", "clearTimeout", "Date", "performance"],
+		});
+		vi.resetModules();
+		events.length = 0;
+
+		exit = vi.fn((code: number) => at(`exit ${code}`));
+		vi.spyOn(process, "exit").mockImplementation(exit as never);
+		vi.spyOn(process, "on").mockImplementation(((
+			_: string,
+			listener: typeof signal,
+		) => {
+			signal = listener;
+
+			return process;
+		}) as never);
+
+		lifecycle = await import("../shared/lib/lifecycle");
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it("drains after the delay, then runs the hooks in order", async () => {
+		start(
+			createApp(async () => {
+				expect(lifecycle.isShuttingDown()).toBe(true);
+				at("stop");
+			}),
+		);
+
+		for (const [name, order] of [
+			["telemetry", lifecycle.ShutdownOrder.TELEMETRY],
+			["database", lifecycle.ShutdownOrder.CONNECTIONS],
+			["workers", lifecycle.ShutdownOrder.WORKERS],
+		] as const) {
+			lifecycle.registerShutdownHook({ name, order, run: () => at(name) });
+		}
+
+		signal("SIGTERM");
+		await settle(5000);
+
+		expect(events).toEqual([
+			"5000 stop",
+			"5000 workers",
+			"5000 database",
+			"5000 telemetry",
+			"5000 exit 0",
+		]);
+	});
+
+	it("fits hanging requests and hooks into the shutdown budget", async () => {
+		start(createApp(() => new Promise(() => {})));
+
+		lifecycle.registerShutdownHook({
+			name: "stuck",
+			timeoutMs: 60_000,
+			run: () => new Promise(() => {}),
+		});
+
+		signal("SIGTERM");
+		await settle(20_000);
+		await settle(5000);
+
+		// The delay and the hook reserve leave the drain 15 seconds
+		expect(events).toEqual(["20000 force stop", "25000 exit 1"]);
+	});
+
+	it("exits at once on a second signal", async () => {
+		start(createApp(() => new Promise(() => {})));
+
+		signal("SIGTERM");
+		// Delivered to the whole process group alongside the first
+		signal("SIGTERM");
+		expect(exit).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1000);
+		signal("SIGINT");
+
+		expect(exit).toHaveBeenCalledWith(1);
+	});
+});
@@ -0,0 +1,150 @@
+import type { SQL } from "drizzle-orm";
+import {
+	boolean,
+	integer,
+	PgDialect,
+	pgTable,
+	text,
+	timestamp,
+	uuid,
+} from "drizzle-orm/pg-core";
+import { describe, expect, it } from "vitest";
+
+import { defineListQuery } from "../shared/lib/list-query";
+
+const user = pgTable("user", {
+	id: uuid("id").primaryKey(),
+	email: text("email").notNull(),
+	age: integer("age"),
+	banned: boolean("banned"),
+	createdAt: timestamp("created_at").notNull(),
+});
+
+const userList = defineListQuery({
+	fields: {
+		id: { column: user.id, filter: ["eq", "in", "contains"] },
+		email: { column: user.email, filter: ["eq", "contains", "startsWith"] },
+		age: { column: user.age, filter: ["gte", "lt", "isNull"], sort: true },
+		banned: { column: user.banned, filter: ["eq"] },
+		createdAt: { column: user.createdAt, filter: ["gte"], sort: true },
+	},
+	defaultSort: "-createdAt",
+	tiebreaker: user.id,
+	maxLimit: 50,
+});
+
+const dialect = new PgDialect();
+
+function render(query: SQL | undefined) {
+	return query && dialect.sqlToQuery(query);
+}
+
+function parse(search: string) {
+	return userList.parse(new URLSearchParams(search));
+}
+
+function fieldsOf(search: string) {
+	const result = parse(search);
+
+	return result.isErr() ? result.error.errors.map(({ field }) => field) : [];
+}
+
+describe("defineListQuery", () => {
+	it("defaults to the first page sorted by defaultSort and the tiebreaker", () => {
+		const { where, orderBy, page, limit, offset } = parse("").unwrap();
+
+		expect(where).toBeUndefined();
+		expect(orderBy.map((order) => render(order)?.sql)).toEqual([
+			'"user"."created_at" desc',
+			'"user"."id" asc',
+		]);
+		expect({ page, limit, offset }).toEqual({ page: 1, limit: 20, offset: 0 });
+	});
+
+	it("compiles filters as bound parameters of the column's type", () => {
+		const { where } = parse(
+			"filter[email][contains]=50%_off&filter[age][gte]=18&filter[banned]=false",
+		).unwrap();
+
+		expect(render(where)).toMatchObject({
+			sql: '("user"."email" ilike $1 and "user"."age" >= $2 and "user"."banned" = $3)',
+			params: ["%50\\%\\_off%", 18, false],
+		});
+	});
+
+	it("splits in lists and maps isNull", () => {
+		const { where } = parse(
+			"filter[id][in]=a,b&filter[age][isNull]=true",
+		).unwrap();
+
+		expect(render(where)).toMatchObject({
+			sql: '("user"."id" in ($1, $2) and "user"."age" is null)',
+			params: ["a", "b"],
+		});
+	});
+
+	it("sorts by each term, descending with a leading minus", () => {
+		const { orderBy } = parse("sort=age,-createdAt").unwrap();
+
+		expect(orderBy.map((order) => render(order)?.sql)).toEqual([
+			'"user"."age" asc',
+			'"user"."created_at" desc',
+			'"user"."id" asc',
+		]);
+	});
+
+	it("turns page and limit into an offset", () => {
+		const { page, limit, offset } = parse("page=3&limit=10").unwrap();
+
+		expect({ page, limit, offset }).toEqual({ page: 3, limit: 10, offset: 20 });
+	});
+
+	it("lists every invalid parameter at once", () => {
+		expect(
+			fieldsOf(
+				"filter[password]=x&filter[age][eq]=1&filter[age][gte]=old&sort=email&page=0&limit=51",
+			),
+		).toEqual([
+			"filter.password.eq",
+			"filter.age.eq",
+			"filter.age.gte",
+			"sort",
+			"page",
+			"limit",
+		]);
+	});
+
+	it("refuses a repeated parameter instead of keeping the last", () => {
+		expect(
+			fieldsOf(
+				"filter[email][eq]=a@x.io&filter[email][eq]=b@x.io&sort=age&sort=-age",
+			),
+		).toEqual(["filter.email.eq", "sort"]);
+	});
+
+	it("refuses contains and startsWith on columns that are not text", () => {
+		const result = parse("filter[id][contains]=0190");
+
+		expect(result.isErr() && result.error.errors).toEqual([
+			expect.objectContaining({
+				field: "filter.id.contains",
+				code: "invalid_value",
+			}),
+		]);
+	});
+
+	it("reads a parsed query too", () => {
+		const { where } = userList
+			.parse({ "filter[email]": "a@x.io", page: "2" })
+			.unwrap();
+
+		expect(render(where)?.params).toEqual(["a@x.io"]);
+	});
+
+	it("ignores fields inherited from Object.prototype", () => {
+		expect(fieldsOf("filter[constructor]=x&sort=toString")).toEqual([
+			"filter.constructor.eq",
+			"sort",
+		]);
+	});
+});
@@ -0,0 +1,168 @@
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+import { Logger, type LogRecord, onLog, redact } from "../shared/lib/logger";
+
+function createLogger() {
+	return new Logger({
+		level: "info",
+		format: "json",
+		modules: { db: "debug" },
+		routes: { "/api/admin": "debug" },
+		accessLogSampleRate: 1,
+	});
+}
+
+describe("redact", () => {
+	it("replaces sensitive fields at any depth", () => {
+		expect(
+			redact({
+				email: "a@x.io",
+				password: "hunter2",
+				user: { passwd: "x", apiKey: "k", "x-api-key": "k" },
+				headers: { authorization: "Basic abc", cookie: "session=1" },
+				refreshToken: "r",
+				clientSecret: "s",
+				passport: "kept",
+			}),
+		).toEqual({
+			email: "a@x.io",
+			password: "[REDACTED]",
+			user: {
+				passwd: "[REDACTED]",
+				apiKey: "[REDACTED]",
+				"x-api-key": "[REDACTED]",
+			},
+			headers: { authorization: "[REDACTED]", cookie: "[REDACTED]" },
+			refreshToken: "[REDACTED]",
+			clientSecret: "[REDACTED]",
+			passport: "kept",
+		});
+	});
+
+	it.each([
+		"passwordConfirmation",
+		"password_hash",
+		"pwd",
+		"pass",
+		"credentials",
+		"privateKey",
+		"private_key",
+		"jwt",
+		"otp",
+		"otpCode",
+		"sessionId",
+		"x-session-token",
+	])("redacts %s", (key) => {
+		expect(redact({ [key]: "value" })).toEqual({ [key]: "[REDACTED]" });
+	});
+
+	it.each(["passport", "footprint", "bypassed", "keyboard", "email"])(
+		"keeps %s",
+		(key) => {
+			expect(redact({ [key]: "value" })).toEqual({ [key]: "value" });
+		},
+	);
+
+	it("masks key=value credentials inside strings", () => {
+		expect(
+			redact(
+				"GET /callback?code=1&access_token=abc.def&state=x failed: api_key=k1, sessionId=s1 password=hunter2",
+			),
+		).toBe(
+			"GET /callback?code=1&access_token=[REDACTED]&state=x failed: api_key=[REDACTED], sessionId=[REDACTED] password=[REDACTED]",
+		);
+	});
+
+	it("masks credentials inside strings", () => {
+		expect(redact("retrying with Bearer eyJhbGciOi.J9.x-y_z== now")).toBe(
+			"retrying with Bearer [REDACTED] now",
+		);
+		expect(redact(["basic dXNlcjpwYXNz"])).toEqual(["basic [REDACTED]"]);
+	});
+
+	it("serializes errors with their fields and cause", () => {
+		const cause = new Error("Authorization: Bearer abc failed");
+		const error = Object.assign(new Error("Upstream failed", { cause }), {
+			status: 502,
+			token: "t",
+		});
+
+		expect(redact(error)).toMatchObject({
+			name: "Error",
+			message: "Upstream failed",
+			status: 502,
+			token: "[REDACTED]",
+			stack: expect.any(String),
+			cause: { message: "Authorization: Bearer [REDACTED] failed" },
+		});
+	});
+
+	it("converts headers, dates and bigints", () => {
+		expect(
+			redact({
+				headers: new Headers({ Cookie: "a=1", "x-request-id": "r" }),
+				at: new Date(0),
+				count: 10n,
+			}),
+		).toEqual({
+			headers: { cookie: "[REDACTED]", "x-request-id": "r" },
+			at: "1970-01-01T00:00:00.000Z",
+			count: "10",
+		});
+	});
+
+	it("truncates cycles", () => {
+		const node: Record<string, unknown> = { name: "root" };
+		node.self = node;
+
+		expect(JSON.stringify(redact(node))).toContain('"[Truncated]"');
+	});
+});
+
+describe("Logger", () => {
+	const records: LogRecord[] = [];
+	const stop = onLog((record) => records.push(record));
+
+	afterEach(() => {
+		records.length = 0;
+		vi.restoreAllMocks();
+	});
+
+	afterAll(stop);
+
+	it("writes redacted JSON lines with the bindings", () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+		createLogger()
+			.child({ requestId: "r1" })
+			.info("Signed in with Bearer abc", { password: "x" });
+
+		expect(JSON.parse(String(log.mock.calls[0]?.[0]))).toEqual({
+			time: expect.any(String),
+			level: "info",
+			msg: "Signed in with Bearer [REDACTED]",
+			requestId: "r1",
+			password: "[REDACTED]",
+		});
+	});
+
+	it("writes errors to stderr", () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+		createLogger().error("Failed", { err: new Error("boom") });
+
+		expect(error).toHaveBeenCalledOnce();
+	});
+
+	it("lowers the level per module and route prefix", () => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		const logger = createLogger();
+
+		logger.debug("dropped");
+		logger.child({ module: "db" }).debug("module");
+		logger.child({ path: "/api/admin/users" }).debug("route");
+		logger.child({ path: "/api/administrators" }).debug("dropped");
+
+		expect(records.map((record) => record.msg)).toEqual(["module", "route"]);
+	});
+});
@@ -0,0 +1,182 @@
+import { Elysia } from "elysia";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import metricsIntegration from "../shared/integrations/metrics";
+import { errorInterceptor } from "../shared/interceptors";
+import { MetricsRegistry, metrics } from "../shared/lib";
+
+describe("MetricsRegistry", () => {
+	it("renders the Prometheus text format", () => {
+		const registry = new MetricsRegistry();
+		const requests = registry.counter({
+			name: "requests_total",
+			help: "Requests",
+		});
+		const queue = registry.gauge({ name: "queue_size", help: "Queue size" });
+		const latency = registry.histogram({
+			name: "latency_seconds",
+			help: "Latency",
+			buckets: [1, 0.1],
+		});
+
+		requests.inc({ method: "GET" });
+		requests.inc({ method: "GET" }, 2);
+		requests.inc({ method: 'say "hi"\n' });
+		queue.set({}, 3);
+		queue.dec();
+		latency.observe({ route: "/" }, 0.05);
+		latency.observe({ route: "/" }, 0.5);
+		latency.observe({ route: "/" }, 2);
+
+		expect(registry.render()).toBe(
+			[
+				"# HELP requests_total Requests",
+				"# TYPE requests_total counter",
+				'requests_total{method="GET"} 3',
+				'requests_total{method="say \\"hi\\"\\n"} 1',
+				"# HELP queue_size Queue size",
+				"# TYPE queue_size gauge",
+				"queue_size 2",
+				"# HELP latency_seconds Latency",
+				"# TYPE latency_seconds histogram",
+				'latency_seconds_bucket{route="/",le="0.1"} 1',
+				'latency_seconds_bucket{route="/",le="1"} 2',
+				'latency_seconds_bucket{route="/",le="+Inf"} 3',
+				'latency_seconds_sum{route="/"} 2.55',
+				'latency_seconds_count{route="/"} 3',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("returns the existing metric for a registered name", () => {
+		const registry = new MetricsRegistry();
+
+		expect(registry.counter({ name: "a_total", help: "A" })).toBe(
+			registry.counter({ name: "a_total", help: "A" }),
+		);
+	});
+
+	it("runs collectors before each scrape", () => {
+		const registry = new MetricsRegistry();
+		const uptime = registry.gauge({ name: "uptime", help: "Uptime" });
+		let seconds = 0;
+
+		registry.collect(() => {
+			seconds += 1;
+			uptime.set({}, seconds);
+		});
+
+		expect(registry.render()).toContain("uptime 1");
+		expect(registry.render()).toContain("uptime 2");
+	});
+});
+
+describe("metrics integration", () => {
+	const app = new Elysia()
+		.use(metricsIntegration)
+		.use(errorInterceptor)
+		.get("/orders/:id", ({ params }) => ({ id: params.id }));
+
+	function get(path: string) {
+		return app.handle(new Request(`http://localhost${path}`));
+	}
+
+	// Counts are recorded after the response is sent
+	function expectSample(sample: string) {
+		return vi.waitFor(() => expect(metrics.render()).toContain(sample));
+	}
+
+	it("labels requests by route template", async () => {
+		await get("/orders/1");
+		await get("/orders/2");
+
+		await expectSample(
+			'http_requests_total{method="GET",route="/orders/:id",status="200"} 2',
+		);
+		expect(metrics.render()).not.toContain('route="/orders/1"');
+	});
+
+	it("labels requests no route matched as unmatched", async () => {
+		await get("/nowhere/1");
+		await get("/nowhere/2");
+
+		await expectSample(
+			'http_requests_total{method="GET",route="unmatched",status="404"} 2',
+		);
+	});
+});
+
+describe("/metrics", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	// The metrics config is read when it loads, so each case loads it afresh
+	async function scrape(env: Record<string, string>, authorization?: string) {
+		vi.resetModules();
+
+		for (const [name, value] of Object.entries(env)) {
+			vi.stubEnv(name, value);
+		}
+
+		const [{ metricsRouter }, { errorInterceptor }, integration] =
+			await Promise.all([
+				import("../routers/metrics"),
+				import("../shared/interceptors"),
+				import("../shared/integrations/metrics"),
+			]);
+
+		return new Elysia()
+			.use(integration.default)
+			.use(errorInterceptor)
+			.use(metricsRouter)
+			.handle(
+				new Request("http://localhost/metrics", {
+					headers: authorization ? { authorization } : {},
+				}),
+			);
+	}
+
+	it("serves the metrics when enabled", async () => {
+		const response = await scrape({ METRICS_ENABLED: "true" });
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toBe(
+			"text/plain; version=0.0.4; charset=utf-8",
+		);
+		expect(await response.text()).toContain(
+			"# TYPE process_uptime_seconds gauge",
+		);
+	});
+
+	it("answers 404 when disabled", async () => {
+		const response = await scrape({ METRICS_ENABLED: "false" });
+
+		expect(response.status).toBe(404);
+	});
+
+	describe("with a token", () => {
+		const env = {
+			METRICS_ENABLED: "false",
+			METRICS_TOKEN: "s3cr3t-scrape-token",
+		};
+
+		it("serves the metrics for the token", async () => {
+			const response = await scrape(env, "Bearer s3cr3t-scrape-token");
+
+			expect(response.status).toBe(200);
+		});
+
+		it.each([
+			["no token", undefined],
+			["a wrong token", "Bearer wr0ng-scrape-token!"],
+			["a prefix of the token", "Bearer s3cr3t"],
+		])("answers 401 for %s", async (_, authorization) => {
+			const response = await scrape(env, authorization);
+
+			expect(response.status).toBe(401);
+			expect(await response.json()).toMatchObject({ code: "UNAUTHORIZED" });
+		});
+	});
+});
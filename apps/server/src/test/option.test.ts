@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { none, O, some } from "../shared/utils/option";
+import { err, ok } from "../shared/utils/result";
+
+describe("Option", () => {
+	it("maps, chains and filters a Some", () => {
+		const option = some(4)
+			.map((value) => value * 2)
+			.andThen((value) => (value > 5 ? some(String(value)) : none))
+			.filter((value) => value.length === 1);
+
+		expect(option.unwrap()).toBe("8");
+		expect(
+			some(4)
+				.filter((value) => value > 5)
+				.isNone(),
+		).toBe(true);
+	});
+
+	it("skips every step on None", () => {
+		const option = O.fromNullable<number>(null)
+			.map((value) => value * 2)
+			.andThen(() => some(1));
+
+		expect(option.isNone()).toBe(true);
+		expect(option.unwrapOr(0)).toBe(0);
+		expect(option.or(some(3)).unwrap()).toBe(3);
+		expect(() => option.unwrap()).toThrow("Called unwrap on None");
+	});
+
+	it("keeps falsy values other than null and undefined", () => {
+		expect(O.fromNullable(0).unwrap()).toBe(0);
+		expect(O.fromNullable("").unwrap()).toBe("");
+		expect(O.fromNullable(undefined).isNone()).toBe(true);
+	});
+
+	it("iterates over the contained value", () => {
+		expect([...some(1)]).toEqual([1]);
+		expect([...none]).toEqual([]);
+		expect([some(1), none, some(3)].flatMap((option) => [...option])).toEqual([
+			1, 3,
+		]);
+	});
+
+	it("converts to and from Results", () => {
+		expect(some(1).okOr("missing")).toEqual(ok(1));
+		expect(none.okOr("missing")).toEqual(err("missing"));
+		expect(none.okOrElse(() => "missing")).toEqual(err("missing"));
+		expect(O.fromResult(ok(1)).unwrap()).toBe(1);
+		expect(O.fromResult(err("no")).isNone()).toBe(true);
+	});
+
+	it("takes the first row", () => {
+		expect(O.first([{ id: 1 }, { id: 2 }]).unwrap()).toEqual({ id: 1 });
+		expect(O.first([]).toNullable()).toBeNull();
+	});
+});
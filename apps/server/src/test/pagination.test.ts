@@ -0,0 +1,143 @@
+import { pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { ValidationError } from "../shared/errors";
+import { paginateByCursor } from "../shared/lib/pagination";
+
+const queries: { sql: string; params: unknown[] }[] = [];
+let results: unknown[][] = [];
+
+// Answers every query with the rows set by the test
+const db = drizzle(async (sql, params) => {
+	queries.push({ sql, params });
+
+	return { rows: results };
+});
+
+const note = pgTable("note", {
+	id: uuid("id").primaryKey(),
+	title: text("title").notNull(),
+	createdAt: timestamp("created_at").notNull(),
+});
+
+function row(index: number) {
+	return [
+		`0190a5b4-5d3c-7cc1-8a3f-${String(index).padStart(12, "0")}`,
+		`Note ${index}`,
+		// Microseconds, which the cursor cannot hold
+		`2024-07-01 10:00:00.${String(index).padStart(3, "0")}456`,
+	];
+}
+
+function rows(...indexes: number[]) {
+	return indexes.map(row);
+}
+
+async function page(cursor?: string, limit = 2) {
+	const result = await paginateByCursor(db.select().from(note).$dynamic(), {
+		id: note.id,
+		sort: note.createdAt,
+		cursor,
+		limit,
+	});
+
+	return result.unwrap();
+}
+
+function encode(value: unknown): string {
+	return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("paginateByCursor", () => {
+	beforeEach(() => {
+		queries.length = 0;
+		results = [];
+	});
+
+	it("reads one extra row to tell whether there is a next page", async () => {
+		results = rows(5, 4, 3);
+
+		const first = await page();
+
+		expect(first.data.map((note) => note.title)).toEqual(["Note 5", "Note 4"]);
+		expect(first.pagination.prevCursor).toBeNull();
+		expect(first.pagination.nextCursor).toEqual(expect.any(String));
+		expect(queries[0]?.sql).toContain(
+			`order by date_trunc('milliseconds', "note"."created_at") desc, "note"."id" desc limit $1`,
+		);
+		expect(queries[0]?.params).toEqual([3]);
+	});
+
+	it("continues after the cursor row, ties broken by the ID", async () => {
+		results = rows(5, 4, 3);
+
+		const { nextCursor } = (await page()).pagination;
+
+		results = rows(3, 2);
+		queries.length = 0;
+
+		const second = await page(nextCursor ?? undefined);
+		const [query] = queries;
+
+		expect(query?.sql).toContain(
+			`where (date_trunc('milliseconds', "note"."created_at") < $1 or (date_trunc('milliseconds', "note"."created_at") = $2 and "note"."id" < $3))`,
+		);
+		expect(query?.params.slice(0, 3)).toEqual([
+			"2024-07-01T10:00:00.004Z",
+			"2024-07-01T10:00:00.004Z",
+			row(4)[0],
+		]);
+		expect(second.data.map((note) => note.title)).toEqual(["Note 3", "Note 2"]);
+		expect(second.pagination.nextCursor).toBeNull();
+		expect(second.pagination.prevCursor).toEqual(expect.any(String));
+	});
+
+	it("reads a previous page in reverse and flips it back", async () => {
+		results = rows(3, 2);
+
+		const { prevCursor } = (
+			await page(encode(["next", "2024-07-01T10:00:00.004Z", row(4)[0]]))
+		).pagination;
+
+		// Ascending from the first row of the page, newest last
+		results = rows(4, 5);
+		queries.length = 0;
+
+		const previous = await page(prevCursor ?? undefined);
+
+		expect(queries[0]?.sql).toContain(
+			`order by date_trunc('milliseconds', "note"."created_at") asc, "note"."id" asc`,
+		);
+		expect(previous.data.map((note) => note.title)).toEqual([
+			"Note 5",
+			"Note 4",
+		]);
+		// Back at the start
+		expect(previous.pagination.prevCursor).toBeNull();
+		expect(previous.pagination.nextCursor).toEqual(expect.any(String));
+	});
+
+	it.each([
+		["not base64 JSON", "%%%"],
+		["not an array", encode({ direction: "next" })],
+		["a missing key", encode(["next", "2024-07-01T10:00:00.004Z"])],
+		["an unknown direction", encode(["up", "2024-07-01T10:00:00.004Z", "x"])],
+		["an invalid date", encode(["next", "yesterday", "x"])],
+	])("rejects a cursor with %s", async (_, cursor) => {
+		const result = await paginateByCursor(db.select().from(note).$dynamic(), {
+			id: note.id,
+			sort: note.createdAt,
+			cursor,
+		});
+
+		expect(result.isErr() && result.error).toBeInstanceOf(ValidationError);
+		expect(queries).toHaveLength(0);
+	});
+
+	it("clamps the limit", async () => {
+		await page(undefined, 1000);
+
+		expect(queries[0]?.params).toEqual([101]);
+	});
+});
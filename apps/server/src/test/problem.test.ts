@@ -0,0 +1,157 @@
+import { Elysia } from "elysia";
+import { describe, expect, it } from "vitest";
+
+import {
+	HttpError,
+	NotFoundError,
+	UpstreamError,
+	ValidationError,
+} from "../shared/errors";
+import { errorInterceptor } from "../shared/interceptors";
+import { requestContextMiddleware } from "../shared/middleware";
+import { negotiateErrorFormat, Problem } from "../shared/utils";
+
+const app = new Elysia()
+	.use(requestContextMiddleware)
+	.use(errorInterceptor)
+	.get("/missing", () => {
+		throw new NotFoundError("User");
+	})
+	.get("/invalid", () => {
+		throw ValidationError.field("email", "Invalid email format");
+	})
+	.get("/upstream", () => {
+		throw new UpstreamError("Payments", "Payments returned 503");
+	})
+	.get("/clash", () => {
+		throw new HttpError("CONFLICT", "Already taken", {
+			details: { type: "about:blank", status: 200, code: "OK", hint: "x" },
+		});
+	});
+
+async function get(path: string, accept?: string) {
+	const response = await app.handle(
+		new Request(`http://localhost${path}`, {
+			headers: accept ? { accept } : {},
+		}),
+	);
+
+	return {
+		status: response.status,
+		contentType: response.headers.get("content-type"),
+		body: await response.json(),
+	};
+}
+
+describe("negotiateErrorFormat", () => {
+	it.each([
+		[null, "problem"],
+		["*/*", "problem"],
+		["application/problem+json", "problem"],
+		["application/json", "legacy"],
+		["application/json, application/problem+json", "problem"],
+		["application/problem+json;q=0.5, application/json", "legacy"],
+		["application/*", "problem"],
+		["text/html, application/json;q=0.9", "legacy"],
+		["application/json;q=0.9, application/problem+json", "problem"],
+		// Axios
+		["application/json, text/plain, */*", "legacy"],
+		// fetch and most HTTP libraries
+		["*/*", "problem"],
+		// Browsers navigating
+		[
+			"text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+			"problem",
+		],
+		["application/json;q=0, */*", "problem"],
+	])("%s prefers %s", (accept, format) => {
+		expect(negotiateErrorFormat(accept)).toBe(format);
+	});
+});
+
+describe("Problem.of", () => {
+	it("omits a detail that repeats the title", () => {
+		expect(Problem.of("NOT_FOUND", { detail: "Resource not found" })).toEqual({
+			type: "/problems/not-found",
+			title: "Resource not found",
+			status: 404,
+			code: "NOT_FOUND",
+		});
+	});
+
+	it("never lets an extension replace a standard member", () => {
+		const problem = Problem.of("CONFLICT", {
+			detail: "Already taken",
+			type: "about:blank",
+			status: 200,
+		});
+
+		expect(problem).toMatchObject({
+			type: "/problems/conflict",
+			status: 409,
+			detail: "Already taken",
+		});
+	});
+});
+
+describe("error interceptor", () => {
+	it("serves problem details by default", async () => {
+		const { status, contentType, body } = await get("/missing");
+
+		expect(status).toBe(404);
+		expect(contentType).toBe("application/problem+json");
+		expect(body).toEqual({
+			type: "/problems/not-found",
+			title: "Resource not found",
+			status: 404,
+			detail: "User not found",
+			instance: "/missing",
+			code: "NOT_FOUND",
+			requestId: expect.any(String),
+		});
+	});
+
+	it("serves the legacy envelope to clients preferring JSON", async () => {
+		const { status, contentType, body } = await get(
+			"/invalid",
+			"application/json",
+		);
+
+		expect(status).toBe(422);
+		expect(contentType).toContain("application/json");
+		expect(body).toEqual({
+			success: false,
+			error: "Invalid email format",
+			code: "VALIDATION_FAILED",
+			requestId: expect.any(String),
+			errors: [{ field: "email", message: "Invalid email format" }],
+		});
+	});
+
+	it("keeps the standard members over clashing details", async () => {
+		const { status, body } = await get("/clash");
+
+		expect(status).toBe(409);
+		expect(body).toMatchObject({
+			type: "/problems/conflict",
+			status: 409,
+			code: "CONFLICT",
+			hint: "x",
+		});
+	});
+
+	it("hides the message of an upstream failure behind a 502", async () => {
+		const { status, body } = await get("/upstream");
+
+		expect(status).toBe(502);
+		expect(body.code).toBe("UPSTREAM_ERROR");
+		expect(body).not.toHaveProperty("detail");
+	});
+
+	it("answers unknown routes with ROUTE_NOT_FOUND", async () => {
+		const { status, body } = await get("/nowhere");
+
+		expect(status).toBe(404);
+		expect(body.code).toBe("ROUTE_NOT_FOUND");
+	});
+});
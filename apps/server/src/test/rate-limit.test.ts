@@ -0,0 +1,172 @@
+import { Elysia } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+	MemoryRateLimitStore,
+	PostgresRateLimitStore,
+	parseDuration,
+} from "../shared/lib/rate-limit";
+import { rateLimitMiddleware } from "../shared/middleware";
+
+const database = vi.hoisted(() => {
+	// Read when the config loads, tests disable rate limits by default
+	process.env.RATE_LIMIT_ENABLED = "true";
+	process.env.RATE_LIMIT_TRUST_PROXY = "true";
+	process.env.RATE_LIMIT_PROXY_HOPS = "2";
+
+	return {
+		queries: [] as { sql: string; params: unknown[] }[],
+		results: [] as unknown[][][],
+	};
+});
+
+vi.mock("../db", async () => {
+	const { drizzle } = await import("drizzle-orm/pg-proxy");
+
+	return {
+		db: drizzle(async (sql, params) => {
+			database.queries.push({ sql, params });
+
+			return { rows: database.results.shift() ?? [] };
+		}),
+	};
+});
+
+const NOW = Date.UTC(2024, 6, 1, 10);
+
+beforeEach(() => {
+	vi.useFakeTimers({ now: NOW, toFake: ["Date", "setInterval"] });
+	database.queries = [];
+	database.results = [];
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("parseDuration", () => {
+	it.each([
+		[250, 250],
+		["500ms", 500],
+		["30s", 30_000],
+		["1m", 60_000],
+		["2h", 7_200_000],
+		["1d", 86_400_000],
+	] as const)("reads %s", (duration, ms) => {
+		expect(parseDuration(duration)).toBe(ms);
+	});
+
+	it.each(["1", "1.5s", "1w", "-1s"])("refuses %s", (duration) => {
+		expect(() => parseDuration(duration as "1s")).toThrow("Invalid duration");
+	});
+});
+
+describe("MemoryRateLimitStore", () => {
+	it("counts hits until the window resets", async () => {
+		const store = new MemoryRateLimitStore();
+
+		await store.increment("a", 1000);
+		vi.advanceTimersByTime(999);
+
+		expect(await store.increment("a", 1000)).toEqual({
+			count: 2,
+			resetAt: NOW + 1000,
+		});
+
+		vi.advanceTimersByTime(1);
+
+		expect(await store.increment("a", 1000)).toEqual({
+			count: 1,
+			resetAt: NOW + 2000,
+		});
+	});
+
+	it("keeps a counter per key", async () => {
+		const store = new MemoryRateLimitStore();
+
+		await store.increment("a", 1000);
+
+		expect((await store.increment("b", 1000)).count).toBe(1);
+	});
+});
+
+describe("PostgresRateLimitStore", () => {
+	it("counts in one upsert that restarts expired windows", async () => {
+		database.results.push([[3, "2024-07-01 10:00:30+00"]]);
+
+		const hit = await new PostgresRateLimitStore().increment("a", 60_000);
+		const [query] = database.queries;
+
+		expect(query?.sql).toContain(
+			'on conflict ("key") do update set "count" = case when "rate_limit"."reset_at" <= now() then 1',
+		);
+		expect(query?.params).toEqual(["a", 1, "2024-07-01T10:01:00.000Z"]);
+		expect(hit).toEqual({ count: 3, resetAt: NOW + 30_000 });
+	});
+});
+
+describe("rateLimit macro", () => {
+	const app = new Elysia().use(rateLimitMiddleware).get("/", () => "ok", {
+		rateLimit: { window: "1m", max: 2 },
+	});
+
+	function hit(forwardedFor: string, accept = "*/*") {
+		return app.handle(
+			new Request("http://localhost/", {
+				headers: { "x-forwarded-for": forwardedFor, accept },
+			}),
+		);
+	}
+
+	it("answers 429 once a client exceeds the limit", async () => {
+		// The client may prepend anything, the proxies append the rest
+		const client = "203.0.113.9, 198.51.100.1, 10.0.0.1";
+
+		expect((await hit(`1.1.1.1, ${client}`)).status).toBe(200);
+		expect((await hit(`2.2.2.2, ${client}`)).status).toBe(200);
+
+		const limited = await hit(client);
+
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("retry-after")).toBe("60");
+		expect(limited.headers.get("ratelimit-remaining")).toBe("0");
+		expect(limited.headers.get("ratelimit-policy")).toBe("2;w=60");
+		expect(limited.headers.get("content-type")).toBe(
+			"application/problem+json",
+		);
+		expect(await limited.json()).toMatchObject({
+			status: 429,
+			code: "RATE_LIMITED",
+			instance: "/",
+		});
+	});
+
+	it("keeps the legacy envelope for clients preferring JSON", async () => {
+		const client = "203.0.113.11, 198.51.100.3, 10.0.0.1";
+
+		await hit(client);
+		await hit(client);
+
+		const limited = await hit(client, "application/json");
+
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get("retry-after")).toBe("60");
+		expect(await limited.json()).toMatchObject({
+			success: false,
+			code: "RATE_LIMITED",
+		});
+	});
+
+	it("starts over in the next window", async () => {
+		const client = "203.0.113.10, 198.51.100.2, 10.0.0.1";
+
+		await hit(client);
+		await hit(client);
+		vi.advanceTimersByTime(60_000);
+
+		const response = await hit(client);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ratelimit-remaining")).toBe("1");
+	});
+});
@@ -0,0 +1,110 @@
+import { Elysia } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { NotFoundError } from "../shared/errors";
+import loggerIntegration from "../shared/integrations/logger";
+import { errorInterceptor } from "../shared/interceptors";
+import { type LogRecord, onLog } from "../shared/lib";
+import { requestContextMiddleware } from "../shared/middleware";
+
+const UUID_V7_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const app = new Elysia()
+	.use(requestContextMiddleware)
+	.use(loggerIntegration)
+	.use(errorInterceptor)
+	.get("/users", ({ log, requestId }) => {
+		log.info("Listing users");
+
+		return { requestId };
+	})
+	.get("/users/missing", () => {
+		throw new NotFoundError("User");
+	});
+
+function get(path: string, headers: Record<string, string> = {}) {
+	return app.handle(new Request(`http://localhost${path}`, { headers }));
+}
+
+describe("request ID", () => {
+	const records: LogRecord[] = [];
+	let stopListening: () => void;
+
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		stopListening = onLog((record) => records.push(record));
+	});
+
+	afterEach(() => {
+		stopListening();
+		records.length = 0;
+		vi.restoreAllMocks();
+	});
+
+	it.each([
+		"0190a5b4-5d3c-7cc1-8a3f-6f1f3c9e2b10",
+		"lb-01:trace.42_a",
+		"x".repeat(128),
+	])("keeps the incoming %s", async (incoming) => {
+		const response = await get("/users", { "x-request-id": incoming });
+
+		expect(response.headers.get("x-request-id")).toBe(incoming);
+		expect(await response.json()).toEqual({ requestId: incoming });
+	});
+
+	it.each([
+		["spaces", "forged id"],
+		["markup", "<script>"],
+		["separators", "id;level=fatal"],
+		["an oversized ID", "x".repeat(129)],
+		["an empty ID", ""],
+	])("replaces an incoming ID with %s", async (_, incoming) => {
+		const response = await get("/users", { "x-request-id": incoming });
+		const requestId = response.headers.get("x-request-id");
+
+		expect(requestId).toMatch(UUID_V7_PATTERN);
+		expect(await response.json()).toEqual({ requestId });
+	});
+
+	it("assigns an ID when none is sent", async () => {
+		const first = await get("/users");
+		const second = await get("/users");
+
+		expect(first.headers.get("x-request-id")).toMatch(UUID_V7_PATTERN);
+		expect(first.headers.get("x-request-id")).not.toBe(
+			second.headers.get("x-request-id"),
+		);
+	});
+
+	it("binds the ID to the request's log lines", async () => {
+		const response = await get("/users", { "x-request-id": "req-logged" });
+
+		expect(response.headers.get("x-request-id")).toBe("req-logged");
+		expect(records).toContainEqual(
+			expect.objectContaining({
+				msg: "Listing users",
+				fields: expect.objectContaining({
+					requestId: "req-logged",
+					method: "GET",
+					path: "/users",
+				}),
+			}),
+		);
+	});
+
+	it.each([
+		["problem details", "application/problem+json"],
+		["the legacy envelope", "application/json"],
+	])("puts the ID in %s", async (_, accept) => {
+		const response = await get("/users/missing", {
+			"x-request-id": "req-failed",
+			accept,
+		});
+
+		expect(response.status).toBe(404);
+		expect(response.headers.get("x-request-id")).toBe("req-failed");
+		expect(await response.json()).toMatchObject({ requestId: "req-failed" });
+	});
+});
@@ -0,0 +1,131 @@
+import { Elysia } from "elysia";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { StatusCodes } from "../shared/const";
+import { ConflictError, NotFoundError } from "../shared/errors";
+import { errorInterceptor, resultInterceptor } from "../shared/interceptors";
+import { requestContextMiddleware } from "../shared/middleware";
+import { AsyncResult, err, ok } from "../shared/utils";
+
+const signUp = z.object({ email: z.email(), name: z.string().min(1) });
+
+const app = new Elysia()
+	.use(requestContextMiddleware)
+	.use(errorInterceptor)
+	.use(resultInterceptor)
+	.get("/users/1", () => ok({ id: 1 }))
+	.post("/users", () => ok({ id: 2 }), {
+		result: { status: StatusCodes.CREATED },
+	})
+	.delete("/users/1", () => ok(undefined), {
+		result: { status: StatusCodes.NO_CONTENT },
+	})
+	.get("/users/2", () => err(new NotFoundError("User")))
+	.post("/sign-up", () => {
+		const { error } = signUp.safeParse({ email: "jane", name: "" });
+
+		return err(error);
+	})
+	.post("/projects", () => err("name-taken" as const), {
+		result: {
+			mapError: (error) =>
+				error === "name-taken" ? new ConflictError("Name taken") : undefined,
+		},
+	})
+	.get("/projects/1", () => err(new NotFoundError("Project")), {
+		result: { mapError: () => undefined },
+	})
+	.get("/orders/1", () => AsyncResult.ok({ id: 1 }))
+	.get("/orders/2", () =>
+		AsyncResult.fromPromise(
+			Promise.reject(new Error("lost")),
+			() => new NotFoundError("Order"),
+		),
+	)
+	.get("/plain", () => "plain");
+
+async function call(method: string, path: string) {
+	const response = await app.handle(
+		new Request(`http://localhost${path}`, { method }),
+	);
+	const contentType = response.headers.get("content-type");
+	const text = await response.text();
+
+	return {
+		status: response.status,
+		contentType,
+		body: contentType?.includes("json") ? JSON.parse(text) : undefined,
+		text,
+	};
+}
+
+describe("resultInterceptor", () => {
+	it("sends an Ok as the success envelope", async () => {
+		const { status, body } = await call("GET", "/users/1");
+
+		expect(status).toBe(200);
+		expect(body).toMatchObject({ success: true, data: { id: 1 } });
+	});
+
+	it("uses the route's success status", async () => {
+		const { status, body } = await call("POST", "/users");
+
+		expect(status).toBe(201);
+		expect(body).toMatchObject({ success: true, data: { id: 2 } });
+	});
+
+	it("sends no body for 204", async () => {
+		const { status, text } = await call("DELETE", "/users/1");
+
+		expect(status).toBe(204);
+		expect(text).toBe("");
+	});
+
+	it("sends an Err(HttpError) as its problem", async () => {
+		const { status, contentType, body } = await call("GET", "/users/2");
+
+		expect(status).toBe(404);
+		expect(contentType).toBe("application/problem+json");
+		expect(body).toMatchObject({ status: 404, code: "NOT_FOUND" });
+	});
+
+	it("sends an Err(ZodError) as field errors", async () => {
+		const { status, body } = await call("POST", "/sign-up");
+
+		expect(status).toBe(422);
+		expect(body).toMatchObject({
+			code: "VALIDATION_FAILED",
+			errors: [
+				expect.objectContaining({ field: "email" }),
+				expect.objectContaining({ field: "name" }),
+			],
+		});
+	});
+
+	it("maps domain errors with mapError", async () => {
+		const { status, body } = await call("POST", "/projects");
+
+		expect(status).toBe(409);
+		expect(body).toMatchObject({ code: "CONFLICT", detail: "Name taken" });
+	});
+
+	it("falls back to the error itself when mapError has no mapping", async () => {
+		expect((await call("GET", "/projects/1")).status).toBe(404);
+	});
+
+	it("awaits an AsyncResult", async () => {
+		const { status, body } = await call("GET", "/orders/1");
+
+		expect(status).toBe(200);
+		expect(body).toMatchObject({ success: true, data: { id: 1 } });
+	});
+
+	it("sends the Err of an AsyncResult as its problem", async () => {
+		expect((await call("GET", "/orders/2")).status).toBe(404);
+	});
+
+	it("leaves other values alone", async () => {
+		expect((await call("GET", "/plain")).text).toBe("plain");
+	});
+});
@@ -0,0 +1,227 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+	HttpError,
+	NotFoundError,
+	toWireError,
+	ValidationError,
+} from "../shared/errors";
+import { AsyncResult } from "../shared/utils/async-result";
+import { O } from "../shared/utils/option";
+import { err, ok, R, type Result } from "../shared/utils/result";
+
+function parsePort(input: string): Result<number, string> {
+	const port = Number(input);
+
+	return Number.isInteger(port) ? ok(port) : err(`Not a port: ${input}`);
+}
+
+describe("R.gen", () => {
+	it("unwraps each Ok and returns an Ok", () => {
+		const result = R.gen(function* () {
+			const from = yield* parsePort("3000");
+			const to = yield* parsePort("3010");
+
+			return to - from;
+		});
+
+		expect(result).toEqual(ok(10));
+	});
+
+	it("stops at the first Err and runs finally blocks", () => {
+		const after = vi.fn();
+		const cleanup = vi.fn();
+
+		const result = R.gen(function* () {
+			try {
+				yield* parsePort("http");
+				after();
+				return yield* parsePort("3000");
+			} finally {
+				cleanup();
+			}
+		});
+
+		expect(result).toEqual(err("Not a port: http"));
+		expect(after).not.toHaveBeenCalled();
+		expect(cleanup).toHaveBeenCalledOnce();
+	});
+
+	it("yields nothing for an Ok and the Err itself outside R.gen", () => {
+		const failure = err("no");
+
+		expect([...ok(1)]).toEqual([]);
+		expect([...failure]).toEqual([failure]);
+	});
+});
+
+describe("R.genAsync", () => {
+	it("unwraps Results and AsyncResults", async () => {
+		const result = await R.genAsync(async function* () {
+			const port = yield* parsePort("3000");
+			const host = yield* AsyncResult.ok("localhost");
+
+			return `${host}:${port}`;
+		});
+
+		expect(result).toEqual(ok("localhost:3000"));
+	});
+
+	it("stops at an Err of an AsyncResult", async () => {
+		const after = vi.fn();
+
+		const result = await R.genAsync(async function* () {
+			yield* AsyncResult.fromPromise(
+				Promise.reject(new Error("down")),
+				() => "Unavailable",
+			);
+			after();
+		});
+
+		expect(result).toEqual(err("Unavailable"));
+		expect(after).not.toHaveBeenCalled();
+	});
+});
+
+describe("Ok and Err", () => {
+	it("turn into nullable values", () => {
+		expect(ok(1).ok()).toBe(1);
+		expect(ok(1).err()).toBeNull();
+		expect(err("no").ok()).toBeNull();
+		expect(err("no").err()).toBe("no");
+	});
+
+	it("only hand their contents to R.gen when iterated", () => {
+		expect([...ok(1)]).toEqual([]);
+		expect([...err("no")]).toEqual([err("no")]);
+		expect([...O.fromResult(ok(1))]).toEqual([1]);
+	});
+});
+
+describe("wire format", () => {
+	// What the web app receives: the encoded Result after a JSON round trip
+	function roundTrip<T, E>(result: Result<T, E>) {
+		return R.fromWire(
+			JSON.parse(JSON.stringify(R.toWire(result, toWireError))),
+		);
+	}
+
+	it("carries an Ok value", () => {
+		expect(R.toWire(ok({ id: 1 }), toWireError)).toEqual({
+			ok: true,
+			value: { id: 1 },
+		});
+		expect(roundTrip(ok({ id: 1 }))).toEqual(ok({ id: 1 }));
+	});
+
+	it("carries the code and message of exposed errors", () => {
+		expect(roundTrip(err(new NotFoundError("User")))).toEqual(
+			err({ code: "NOT_FOUND", message: "User not found" }),
+		);
+	});
+
+	it("keeps the field errors of a ValidationError", () => {
+		const errors = [{ field: "email", message: "Invalid email address" }];
+
+		expect(roundTrip(err(new ValidationError(undefined, errors)))).toEqual(
+			err({
+				code: "VALIDATION_FAILED",
+				message: "Validation failed",
+				details: { errors },
+			}),
+		);
+	});
+
+	it("hides the message of unexposed errors", () => {
+		const internal = {
+			code: "INTERNAL_ERROR",
+			message: "An unexpected error occurred",
+		};
+
+		expect(
+			roundTrip(err(new HttpError("INTERNAL_ERROR", "pool exhausted"))),
+		).toEqual(err(internal));
+		expect(roundTrip(err(new Error("secret stack")))).toEqual(err(internal));
+	});
+
+	it("parses the Ok value with parseValue", () => {
+		const parseValue = vi.fn((value: unknown) => new Date(value as string));
+
+		expect(
+			R.fromWire({ ok: true, value: "2024-07-01T00:00:00.000Z" }, parseValue),
+		).toEqual(ok(new Date("2024-07-01T00:00:00.000Z")));
+		R.fromWire({ ok: false, error: { code: "X", message: "x" } }, parseValue);
+		expect(parseValue).toHaveBeenCalledOnce();
+	});
+
+	it.each([
+		["null", null],
+		["an Ok without a value", { ok: true }],
+		["an Err without a code", { ok: false, error: { message: "x" } }],
+		[
+			"an Err with non-object details",
+			{
+				ok: false,
+				error: { code: "X", message: "x", details: "x" },
+			},
+		],
+		["the legacy envelope", { success: true, data: 1 }],
+	])("refuses %s", (_, input) => {
+		expect(() => R.fromWire(input)).toThrow(new TypeError("Not a wire result"));
+	});
+});
+
+describe("AsyncResult", () => {
+	it("chains async steps on an Ok", async () => {
+		const tap = vi.fn();
+
+		const result = await AsyncResult.ok(2)
+			.map(async (value) => value * 3)
+			.andThen((value) => parsePort(String(value)))
+			.tap(tap);
+
+		expect(result).toEqual(ok(6));
+		expect(tap).toHaveBeenCalledWith(6);
+	});
+
+	it("skips the Ok steps after an Err", async () => {
+		const map = vi.fn();
+
+		const result = await AsyncResult.err("no")
+			.map(map)
+			.mapErr((error) => error.toUpperCase());
+
+		expect(result).toEqual(err("NO"));
+		expect(map).not.toHaveBeenCalled();
+	});
+
+	it("recovers with orElse and matches", async () => {
+		const recovered = AsyncResult.err("no").orElse(() => ok(0));
+
+		await expect(
+			recovered.match({ ok: (value) => `ok ${value}`, err: () => "err" }),
+		).resolves.toBe("ok 0");
+		await expect(AsyncResult.err("no").unwrapOr(1)).resolves.toBe(1);
+	});
+
+	it("maps a rejected promise to an Err", async () => {
+		const result = await AsyncResult.fromPromise(
+			Promise.reject(new Error("down")),
+			(error) => (error as Error).message,
+		);
+
+		expect(result).toEqual(err("down"));
+	});
+
+	it("combines into the first Err or all values", async () => {
+		await expect(
+			AsyncResult.combine([ok(1), Promise.resolve(ok("a"))]),
+		).resolves.toEqual(ok([1, "a"]));
+		await expect(
+			AsyncResult.combine([ok(1), err("first"), err("second")]),
+		).resolves.toEqual(err("first"));
+		await expect(
+			AsyncResult.combineWithAllErrors([ok(1), err("first"), err("second")]),
+		).resolves.toEqual(err(["first", "second"]));
+	});
+});
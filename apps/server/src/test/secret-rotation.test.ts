@@ -0,0 +1,100 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { resignAuthHeaders } from "../shared/lib/secret-rotation";
+
+const CURRENT = "current-secret-0123456789abcdefghijklmnop";
+const RETIRED = "retired-secret-0123456789abcdefghijklmnop";
+const SECRETS = [CURRENT, RETIRED];
+const SESSION = "nQ4kKqS1e7vX3o0bYw2Ht9Lr";
+
+function signature(value: string, secret: string): string {
+	return createHmac("sha256", secret).update(value).digest("base64");
+}
+
+// As better-call signs cookies: value.base64(HMAC), URI encoded
+function cookie(value: string, secret: string): string {
+	return `better-auth.session_token=${encodeURIComponent(
+		`${value}.${signature(value, secret)}`,
+	)}`;
+}
+
+// As the bearer plugin hands tokens out: base64url without padding
+function bearer(value: string, secret: string): string {
+	const token = signature(value, secret)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=$/, "");
+
+	return `Bearer ${value}.${token}`;
+}
+
+describe("resignAuthHeaders", () => {
+	it("re-signs cookies signed with a retired secret", async () => {
+		const headers = new Headers({
+			cookie: `theme=dark; ${cookie(SESSION, RETIRED)}`,
+		});
+
+		const resigned = await resignAuthHeaders(headers, SECRETS);
+
+		expect(resigned.get("cookie")).toBe(
+			`theme=dark; ${cookie(SESSION, CURRENT)}`,
+		);
+	});
+
+	it("unsigns bearer tokens signed with a retired secret", async () => {
+		const headers = new Headers({ authorization: bearer(SESSION, RETIRED) });
+
+		const resigned = await resignAuthHeaders(headers, SECRETS);
+
+		// The bearer plugin signs it again with the current secret
+		expect(resigned.get("authorization")).toBe(`Bearer ${SESSION}`);
+	});
+
+	it("leaves credentials signed with the current secret alone", async () => {
+		const headers = new Headers({
+			cookie: cookie(SESSION, CURRENT),
+			authorization: bearer(SESSION, CURRENT),
+		});
+
+		expect(await resignAuthHeaders(headers, SECRETS)).toBe(headers);
+	});
+
+	it.each([
+		[
+			"an unknown secret",
+			cookie(SESSION, "someone-elses-secret-0123456789abc"),
+		],
+		[
+			"a tampered value",
+			cookie(SESSION, RETIRED).replace(SESSION, `${SESSION.slice(0, -1)}x`),
+		],
+		[
+			"a tampered signature",
+			`better-auth.session_token=${encodeURIComponent(
+				`${SESSION}.${"A".repeat(43)}=`,
+			)}`,
+		],
+	])("never re-signs a cookie signed with %s", async (_, value) => {
+		const headers = new Headers({ cookie: value });
+
+		expect(await resignAuthHeaders(headers, SECRETS)).toBe(headers);
+	});
+
+	it("never unsigns a tampered bearer token", async () => {
+		const headers = new Headers({
+			authorization: bearer(`${SESSION}x`, RETIRED).replace(
+				`${SESSION}x`,
+				SESSION,
+			),
+		});
+
+		expect(await resignAuthHeaders(headers, SECRETS)).toBe(headers);
+	});
+
+	it("does nothing without retired secrets", async () => {
+		const headers = new Headers({ cookie: cookie(SESSION, RETIRED) });
+
+		expect(await resignAuthHeaders(headers, [CURRENT])).toBe(headers);
+	});
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const STRONG_SECRET = "kq3V9xT2mB7nL4pR8sW1yZ6cF0hJ5dGu";
+
+// Config is resolved when its module loads, so each case loads it afresh
+async function loadSecurity(env: Record<string, string>) {
+	vi.resetModules();
+
+	for (const [name, value] of Object.entries(env)) {
+		vi.stubEnv(name, value);
+	}
+
+	return import("../shared/lib/security");
+}
+
+describe("auth secrets", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it.each([
+		["a known default", "changeme", "is a known default value"],
+		["a short secret", "kq3V9xT2mB7nL4pR", "is shorter than 32 characters"],
+		["a repetitive secret", "ab".repeat(20), "is not random enough"],
+	])("refuses to start in production with %s", async (_, secret, reason) => {
+		await expect(
+			loadSecurity({ NODE_ENV: "production", BETTER_AUTH_SECRET: secret }),
+		).rejects.toThrow(`BETTER_AUTH_SECRET: secret #1 ${reason}`);
+	});
+
+	it("refuses a weak retired secret too", async () => {
+		await expect(
+			loadSecurity({
+				NODE_ENV: "production",
+				BETTER_AUTH_SECRET: `${STRONG_SECRET},your-secret-key`,
+			}),
+		).rejects.toThrow("secret #2 is a known default value");
+	});
+
+	it("only warns about weak secrets outside production", async () => {
+		const { auditSecurity } = await loadSecurity({
+			BETTER_AUTH_SECRET: "changeme",
+		});
+
+		expect(auditSecurity()).toContainEqual({
+			setting: "BETTER_AUTH_SECRET",
+			severity: "warning",
+			message:
+				"secret #1 is a known default value and would be refused in production",
+		});
+	});
+});
+
+describe("auditSecurity", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("finds nothing in a safe production setup", async () => {
+		const { auditSecurity } = await loadSecurity({
+			NODE_ENV: "production",
+			BETTER_AUTH_SECRET: STRONG_SECRET,
+			BETTER_AUTH_URL: "https://api.example.com",
+			CORS_ORIGIN: "https://example.com",
+		});
+
+		expect(auditSecurity()).toEqual([]);
+	});
+
+	it("flags a wildcard origin with credentials as critical", async () => {
+		const { auditSecurity } = await loadSecurity({ CORS_ORIGIN: "*" });
+
+		expect(auditSecurity()).toContainEqual(
+			expect.objectContaining({ setting: "CORS_ORIGIN", severity: "critical" }),
+		);
+	});
+
+	it("flags SameSite=None cookies without HTTPS in production", async () => {
+		const { auditSecurity } = await loadSecurity({
+			NODE_ENV: "production",
+			BETTER_AUTH_SECRET: STRONG_SECRET,
+			CORS_ORIGIN: "https://example.com",
+			AUTH_COOKIE_SAMESITE: "none",
+		});
+
+		expect(auditSecurity()).toContainEqual(
+			expect.objectContaining({
+				setting: "AUTH_COOKIE_SAMESITE",
+				severity: "critical",
+			}),
+		);
+	});
+});
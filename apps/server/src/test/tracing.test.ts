@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+	formatTraceparent,
+	parseTraceparent,
+	type SpanData,
+	tracer,
+} from "../shared/lib/tracing";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+describe("parseTraceparent", () => {
+	it("reads the trace, parent span and sampled flag", () => {
+		expect(
+			parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`, "vendor=abc"),
+		).toEqual({
+			traceId: TRACE_ID,
+			spanId: SPAN_ID,
+			sampled: true,
+			traceState: "vendor=abc",
+		});
+	});
+
+	it("only looks at the sampled bit of the flags", () => {
+		expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-02`)?.sampled).toBe(
+			false,
+		);
+		expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-03`)?.sampled).toBe(
+			true,
+		);
+	});
+
+	it("ignores fields a later version appends", () => {
+		expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-future`)).toEqual({
+			traceId: TRACE_ID,
+			spanId: SPAN_ID,
+			sampled: true,
+		});
+	});
+
+	it.each([
+		["a missing header", undefined],
+		["an empty header", ""],
+		["the forbidden version", `ff-${TRACE_ID}-${SPAN_ID}-01`],
+		["extra fields in version 00", `00-${TRACE_ID}-${SPAN_ID}-01-extra`],
+		["an all-zero trace ID", `00-${"0".repeat(32)}-${SPAN_ID}-01`],
+		["an all-zero span ID", `00-${TRACE_ID}-${"0".repeat(16)}-01`],
+		["uppercase hex", `00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`],
+		["a short trace ID", `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+		["a missing flags field", `00-${TRACE_ID}-${SPAN_ID}`],
+	])("refuses %s", (_, header) => {
+		expect(parseTraceparent(header)).toBeUndefined();
+	});
+
+	it("drops an oversized tracestate", () => {
+		expect(
+			parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`, `a=${"x".repeat(512)}`),
+		).not.toHaveProperty("traceState");
+	});
+
+	it("round-trips through formatTraceparent", () => {
+		const header = `00-${TRACE_ID}-${SPAN_ID}-00`;
+		const context = parseTraceparent(header);
+
+		expect(context && formatTraceparent(context)).toBe(header);
+	});
+});
+
+describe("tracer", () => {
+	const spans: SpanData[] = [];
+	const exporter = {
+		export: async (batch: SpanData[]) => {
+			spans.push(...batch);
+		},
+	};
+
+	afterEach(() => {
+		spans.length = 0;
+		tracer.configure({});
+		vi.restoreAllMocks();
+	});
+
+	it("follows the sampling decision of the parent", async () => {
+		tracer.configure({ exporter, sampleRatio: 0 });
+
+		tracer
+			.startSpan("sampled", {
+				parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`),
+			})
+			.end();
+		tracer
+			.startSpan("not sampled", {
+				parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`),
+			})
+			.end();
+		await tracer.flush();
+
+		expect(spans).toEqual([
+			expect.objectContaining({
+				name: "sampled",
+				traceId: TRACE_ID,
+				parentSpanId: SPAN_ID,
+			}),
+		]);
+	});
+
+	it("samples root spans by the ratio", async () => {
+		tracer.configure({ exporter, sampleRatio: 0.5 });
+		vi.spyOn(Math, "random").mockReturnValueOnce(0.4).mockReturnValueOnce(0.6);
+
+		tracer.startSpan("kept").end();
+		tracer.startSpan("dropped").end();
+		await tracer.flush();
+
+		expect(spans.map((span) => span.name)).toEqual(["kept"]);
+	});
+
+	it("records nothing without an exporter", () => {
+		const span = tracer.startSpan("unexported", {
+			parent: parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`),
+		});
+
+		expect(span.context).toMatchObject({ traceId: TRACE_ID, sampled: false });
+	});
+
+	it("starts a root span even while another span is active", async () => {
+		tracer.configure({ exporter });
+
+		await tracer.withSpan("previous request", () => {
+			tracer.startSpan("next request", { kind: "server", root: true }).end();
+		});
+		await tracer.flush();
+
+		const [request, previous] = spans;
+
+		expect(request?.name).toBe("next request");
+		expect(request).not.toHaveProperty("parentSpanId");
+		expect(request?.traceId).not.toBe(previous?.traceId);
+	});
+
+	it("nests spans and records exceptions", async () => {
+		tracer.configure({ exporter });
+
+		await expect(
+			tracer.withSpan("outer", () =>
+				tracer.withSpan("inner", () => {
+					throw new Error("boom");
+				}),
+			),
+		).rejects.toThrow("boom");
+		await tracer.flush();
+
+		const [inner, outer] = spans;
+
+		expect(inner?.parentSpanId).toBe(outer?.spanId);
+		expect(inner?.traceId).toBe(outer?.traceId);
+		expect(outer?.status).toEqual({ code: "error", message: "boom" });
+		expect(inner?.events[0]?.attributes["exception.message"]).toBe("boom");
+	});
+});
@@ -0,0 +1,85 @@
+import { pgTable } from "drizzle-orm/pg-core";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ValidationError } from "../shared/errors";
+import { defineId, type TypeId } from "../shared/utils/typeid";
+
+const userId = defineId("usr");
+
+// Example of the TypeID specification
+const UUID = "01890a5d-ac96-774b-bcce-b302099a8057";
+const ID = "usr_01h455vb4pex5vsknk084sn02q" as TypeId<"usr">;
+
+describe("defineId", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("encodes a UUID as base32 and back", () => {
+		expect(userId.fromUuid(UUID)).toBe(ID);
+		expect(userId.toUuid(ID)).toBe(UUID);
+	});
+
+	it.each([
+		["00000000-0000-0000-0000-000000000000", "usr_00000000000000000000000000"],
+		["ffffffff-ffff-ffff-ffff-ffffffffffff", "usr_7zzzzzzzzzzzzzzzzzzzzzzzzz"],
+	])("round-trips %s", (uuid, id) => {
+		expect(userId.fromUuid(uuid)).toBe(id);
+		expect(userId.toUuid(id as TypeId<"usr">)).toBe(uuid);
+	});
+
+	it("generates IDs sorting by creation time", () => {
+		const now = vi.spyOn(Date, "now").mockReturnValue(Date.UTC(2024, 0, 1));
+		const first = userId.generate();
+
+		now.mockReturnValue(Date.UTC(2024, 0, 2));
+		const second = userId.generate();
+
+		expect(userId.is(first) && userId.is(second)).toBe(true);
+		expect(second > first).toBe(true);
+		expect(userId.fromUuid(userId.toUuid(second))).toBe(second);
+	});
+
+	it.each([
+		["another prefix", "org_01h455vb4pex5vsknk084sn02q"],
+		["no prefix", "01h455vb4pex5vsknk084sn02q"],
+		["uppercase", "usr_01H455VB4PEX5VSKNK084SN02Q"],
+		["more than 128 bits", "usr_81h455vb4pex5vsknk084sn02q"],
+		["a letter outside the alphabet", "usr_01h455vb4pex5vsknk084sn02u"],
+		["a short suffix", "usr_01h455vb4pex5vsknk084sn02"],
+	])("refuses %s", (_, value) => {
+		const result = userId.parse(value);
+
+		expect(userId.is(value)).toBe(false);
+		expect(result.isErr() && result.error).toBeInstanceOf(ValidationError);
+		expect(userId.zod.safeParse(value).success).toBe(false);
+	});
+
+	it("accepts its own IDs", () => {
+		expect(userId.parse(ID).unwrap()).toBe(ID);
+		expect(userId.zod.parse(ID)).toBe(ID);
+	});
+
+	it.each(["", "Usr", "usr_", "_usr", "us3r", "a".repeat(64)])(
+		"refuses the prefix %j",
+		(prefix) => {
+			expect(() => defineId(prefix)).toThrow("Invalid ID prefix");
+		},
+	);
+
+	it("stores the UUID in a native uuid column", async () => {
+		const queries: unknown[][] = [];
+		const db = drizzle(async (_, params) => {
+			queries.push(params);
+
+			return { rows: [[UUID]] };
+		});
+		const user = pgTable("user", { id: userId.column("id").primaryKey() });
+
+		const [row] = await db.insert(user).values({ id: ID }).returning();
+
+		expect(queries).toEqual([[UUID]]);
+		expect(row?.id).toBe(ID);
+	});
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+	extractTimestampFromUuidV7,
+	generateUuid,
+	generateUuidV7,
+	isValidUuid,
+	isValidUuidV4,
+	isValidUuidV7,
+	parseUuid,
+	uuidV7FromDate,
+} from "../shared/utils/uuid";
+
+const MOMENT = Date.UTC(2024, 6, 1, 10);
+
+describe("generateUuidV7", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("encodes the current time", () => {
+		vi.spyOn(Date, "now").mockReturnValue(MOMENT);
+
+		const uuid = generateUuidV7();
+
+		expect(isValidUuidV7(uuid)).toBe(true);
+		expect(extractTimestampFromUuidV7(uuid)).toBe(MOMENT);
+	});
+
+	it("sorts after the last UUID within the same millisecond", () => {
+		vi.spyOn(Date, "now").mockReturnValue(MOMENT + 1);
+
+		const uuids = Array.from({ length: 1000 }, generateUuidV7);
+
+		expect(new Set(uuids).size).toBe(uuids.length);
+		expect(uuids).toEqual([...uuids].sort());
+		expect(extractTimestampFromUuidV7(uuids.at(-1) ?? "")).toBe(MOMENT + 1);
+	});
+
+	it("stays ordered when the clock moves back", () => {
+		const now = vi.spyOn(Date, "now").mockReturnValue(MOMENT + 10);
+		const before = generateUuidV7();
+
+		now.mockReturnValue(MOMENT + 5);
+		const after = generateUuidV7();
+
+		expect(after > before).toBe(true);
+		expect(extractTimestampFromUuidV7(after)).toBe(MOMENT + 10);
+	});
+});
+
+describe("generateUuid", () => {
+	it("generates the requested version", () => {
+		expect(isValidUuidV4(generateUuid(4))).toBe(true);
+		expect(isValidUuidV7(generateUuid())).toBe(true);
+	});
+
+	it("refuses other versions", () => {
+		expect(() => generateUuid(5 as 7)).toThrow("Unsupported UUID version");
+	});
+});
+
+describe("uuidV7FromDate", () => {
+	it("bounds every UUID of a millisecond", () => {
+		const lower = uuidV7FromDate(new Date(MOMENT));
+		const upper = uuidV7FromDate(MOMENT, "upper");
+
+		expect(lower).toBe("01906dbc-ad00-7000-8000-000000000000");
+		expect(upper).toBe("01906dbc-ad00-7fff-bfff-ffffffffffff");
+		expect(parseUuid(upper)?.timestampMs).toBe(MOMENT);
+	});
+
+	it.each([-1, 1.5, 2 ** 48])("refuses %s", (moment) => {
+		expect(() => uuidV7FromDate(moment)).toThrow("out of UUID v7 range");
+	});
+});
+
+describe("parseUuid", () => {
+	it("splits a v7 into timestamp and random bits", () => {
+		expect(parseUuid("01906dbc-ad00-7abc-9def-0123456789ab")).toEqual({
+			version: 7,
+			variant: "rfc9562",
+			timestampMs: MOMENT,
+			randomBits: (0xabcn << 62n) | 0x1def0123456789abn,
+		});
+	});
+
+	it("keeps the 122 random bits of a v4", () => {
+		const parsed = parseUuid("ffffffff-ffff-4fff-bfff-ffffffffffff");
+
+		expect(parsed).toMatchObject({ version: 4, variant: "rfc9562" });
+		expect(parsed?.randomBits).toBe((1n << 122n) - 1n);
+		expect(parsed).not.toHaveProperty("timestampMs");
+	});
+
+	it.each([
+		["00000000-0000-0000-0000-000000000000", "ncs"],
+		["ffffffff-ffff-ffff-ffff-ffffffffffff", "future"],
+	])("reads the variant of %s", (uuid, variant) => {
+		expect(parseUuid(uuid)?.variant).toBe(variant);
+	});
+
+	it.each([
+		"",
+		"not-a-uuid",
+		"01906dbcad007abc9def0123456789ab",
+		"01906dbc-ad00-0abc-9def-0123456789ab",
+		"01906dbc-ad00-7abc-cdef-0123456789ab",
+	])("refuses %j", (uuid) => {
+		expect(isValidUuid(uuid)).toBe(false);
+		expect(parseUuid(uuid)).toBeNull();
+	});
+});
@@ -0,0 +1,108 @@
+import { t } from "elysia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+import app from "../index";
+import { ValidationError } from "../shared/errors";
+import { credentialSchemas } from "../shared/lib";
+import { R } from "../shared/utils/result";
+
+function fieldsOf(result: { error?: unknown }) {
+	return (result.error as ValidationError).errors.map(({ field, message }) => ({
+		field,
+		message,
+	}));
+}
+
+describe("R.fromZod", () => {
+	const schema = z.object({
+		name: z.string().min(1, "Name is required"),
+		address: z.object({ zip: z.string().length(5, "Zip must be 5 digits") }),
+		tags: z.array(z.string("Tags must be text")),
+	});
+
+	it("returns the parsed value", () => {
+		const input = { name: "Ada", address: { zip: "12345" }, tags: [] };
+
+		expect(R.fromZod(schema, input).unwrap()).toEqual(input);
+	});
+
+	it("reports every invalid field at once", () => {
+		const result = R.fromZod(schema, {
+			name: "",
+			address: { zip: "1" },
+			tags: ["a", 2],
+		});
+
+		expect(result.isErr() && result.error).toBeInstanceOf(ValidationError);
+		expect(fieldsOf(result)).toEqual([
+			{ field: "name", message: "Name is required" },
+			{ field: "address.zip", message: "Zip must be 5 digits" },
+			{ field: "tags.1", message: "Tags must be text" },
+		]);
+	});
+});
+
+describe("R.fromSchema", () => {
+	const schema = t.Object({
+		name: t.String({ minLength: 1 }),
+		age: t.Number({ minimum: 0 }),
+	});
+
+	it("returns the parsed value", () => {
+		expect(R.fromSchema(schema, { name: "Ada", age: 36 }).unwrap()).toEqual({
+			name: "Ada",
+			age: 36,
+		});
+	});
+
+	it("reports every invalid field at once", () => {
+		const result = R.fromSchema(schema, { name: "", age: -1 });
+
+		expect(result.isErr() && result.error).toBeInstanceOf(ValidationError);
+		expect(fieldsOf(result).map(({ field }) => field)).toEqual(["name", "age"]);
+	});
+});
+
+describe("sign-in validation", () => {
+	const signIn = credentialSchemas["/sign-in/email"] as z.ZodType;
+
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("reports both fields of an empty payload", () => {
+		expect(fieldsOf(R.fromZod(signIn, {}))).toEqual([
+			{ field: "email", message: "Invalid email address" },
+			{ field: "password", message: "Password is required" },
+		]);
+	});
+
+	it("answers 422 VALIDATION_FAILED before better-auth sees the request", async () => {
+		const response = await app.handle(
+			new Request("http://localhost/api/auth/sign-in/email", {
+				method: "POST",
+				headers: {
+					"content-type": "application/json",
+					accept: "application/problem+json",
+				},
+				body: JSON.stringify({ email: "not-an-email", password: "" }),
+			}),
+		);
+
+		expect(response.status).toBe(422);
+		expect(await response.json()).toMatchObject({
+			status: 422,
+			code: "VALIDATION_FAILED",
+			errors: [
+				{ field: "email", message: "Invalid email address" },
+				{ field: "password", message: "Password is required" },
+			],
+		});
+	});
+});
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { Button } from "@/components/ui/button";
+import { reportError } from "@/lib/error-reporting";
+import "../index.css";
+
+interface GlobalErrorProps {
+	error: Error & { digest?: string };
+	reset: () => void;
+}
+
+// Replaces the root layout when it crashes, so it renders its own document
+export default function GlobalError({ error, reset }: GlobalErrorProps) {
+	useEffect(() => {
+		reportError(error);
+	}, [error]);
+
+	return (
+		<html lang="en">
+			<body className="antialiased">
+				<div className="flex h-screen items-center justify-center">
+					<div className="text-center">
+						<h1 className="mb-4 font-bold text-4xl">Something went wrong</h1>
+						<p className="mb-6 text-gray-600">
+							The error has been reported. Please try again.
+						</p>
+						<Button onClick={reset}>Try again</Button>
+					</div>
+				</div>
+			</body>
+		</html>
+	);
+}
@@ -69,7 +69,7 @@ function HomeContainer() {
 								</div>
 							)}
 
-							{healthData?.data?.data && (
+							{healthData && (
 								<div className="space-y-3">
 									<div className="rounded-md bg-green-500/10 p-4">
 										<p className="font-medium text-green-600 text-sm dark:text-green-400">
@@ -80,20 +80,14 @@ function HomeContainer() {
 									<div className="grid grid-cols-2 gap-3 text-sm">
 										<MetricCard
 											label="Uptime"
-											value={`${Math.floor(healthData.data.data.uptime)}s`}
+											value={`${Math.floor(healthData.uptime)}s`}
 										/>
 										<MetricCard
 											label="Response"
-											value={`${healthData.data.data.responseTime}ms`}
-										/>
-										<MetricCard
-											label="Version"
-											value={healthData.data.data.version}
-										/>
-										<MetricCard
-											label="Status"
-											value={healthData.data.data.status}
+											value={`${healthData.responseTime}ms`}
 										/>
+										<MetricCard label="Version" value={healthData.version} />
+										<MetricCard label="Status" value={healthData.status} />
 									</div>
 								</div>
 							)}
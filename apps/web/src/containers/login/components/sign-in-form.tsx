@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useSignInFormSchema } from "@/containers/login/hooks";
 import { useSignIn } from "@/features/auth/hooks";
+import { fieldErrors } from "@/lib/result";
 
 export default function SignInForm({
 	onSwitchToSignUp,
@@ -22,11 +23,23 @@ export default function SignInForm({
 			email: "",
 			password: "",
 		},
-		onSubmit: async ({ value }) => {
-			await signIn({
-				email: value.email,
-				password: value.password,
-			});
+		onSubmit: async ({ value, formApi }) => {
+			try {
+				await signIn({
+					email: value.email,
+					password: value.password,
+				});
+			} catch (error) {
+				// Show the server's field errors under the fields they belong to
+				for (const [field, message] of Object.entries(fieldErrors(error))) {
+					if (field in value) {
+						formApi.setFieldMeta(field as keyof typeof value, (meta) => ({
+							...meta,
+							errorMap: { ...meta.errorMap, onServer: { message } },
+						}));
+					}
+				}
+			}
 		},
 		validators: {
 			onSubmit: signInFormSchema,
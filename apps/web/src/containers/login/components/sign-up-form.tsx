@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useSignUpFormSchema } from "@/containers/login/hooks";
 import { useSignUp } from "@/features/auth/hooks";
+import { fieldErrors } from "@/lib/result";
 
 export default function SignUpForm({
 	onSwitchToSignIn,
@@ -23,12 +24,24 @@ export default function SignUpForm({
 			password: "",
 			name: "",
 		},
-		onSubmit: async ({ value }) => {
-			await signUp({
-				email: value.email,
-				password: value.password,
-				name: value.name,
-			});
+		onSubmit: async ({ value, formApi }) => {
+			try {
+				await signUp({
+					email: value.email,
+					password: value.password,
+					name: value.name,
+				});
+			} catch (error) {
+				// Show the server's field errors under the fields they belong to
+				for (const [field, message] of Object.entries(fieldErrors(error))) {
+					if (field in value) {
+						formApi.setFieldMeta(field as keyof typeof value, (meta) => ({
+							...meta,
+							errorMap: { ...meta.errorMap, onServer: { message } },
+						}));
+					}
+				}
+			}
 		},
 		validators: {
 			onSubmit: signUpFormSchema,
@@ -5,9 +5,12 @@ export const env = createEnv({
 	server: {},
 	client: {
 		NEXT_PUBLIC_SERVER_URL: z.string().url(),
+		// Share of browser requests traced, the server follows this decision
+		NEXT_PUBLIC_TRACE_SAMPLE_RATIO: z.coerce.number().min(0).max(1).default(1),
 	},
 	runtimeEnv: {
 		NEXT_PUBLIC_SERVER_URL: process.env.NEXT_PUBLIC_SERVER_URL,
+		NEXT_PUBLIC_TRACE_SAMPLE_RATIO: process.env.NEXT_PUBLIC_TRACE_SAMPLE_RATIO,
 	},
 	skipValidation: !!process.env.SKIP_ENV_VALIDATION,
 	emptyStringAsUndefined: true,
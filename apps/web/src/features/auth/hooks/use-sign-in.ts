@@ -3,6 +3,7 @@ import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 
 import { authClient } from "@/lib/auth-client";
+import { toApiError } from "@/lib/result";
 
 type SignInRequest = {
 	email: string;
@@ -13,11 +14,19 @@ function useSignIn() {
 	const router = useRouter();
 
 	return useMutation({
-		mutationFn: (request: SignInRequest) =>
-			authClient.signIn.email({
+		mutationFn: async (request: SignInRequest) => {
+			const { data, error } = await authClient.signIn.email({
 				email: request.email,
 				password: request.password,
-			}),
+			});
+
+			// better-auth resolves failures, the mutation has to reject
+			if (error) {
+				throw toApiError(error.status, error);
+			}
+
+			return data;
+		},
 		onSuccess: () => {
 			router.push("/");
 			toast.success("Sign in successful");
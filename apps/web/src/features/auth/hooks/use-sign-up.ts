@@ -3,6 +3,7 @@ import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 
 import { authClient } from "@/lib/auth-client";
+import { toApiError } from "@/lib/result";
 
 type SignUpRequest = {
 	email: string;
@@ -14,12 +15,20 @@ function useSignUp() {
 	const router = useRouter();
 
 	return useMutation({
-		mutationFn: (request: SignUpRequest) =>
-			authClient.signUp.email({
+		mutationFn: async (request: SignUpRequest) => {
+			const { data, error } = await authClient.signUp.email({
 				email: request.email,
 				password: request.password,
 				name: request.name,
-			}),
+			});
+
+			// better-auth resolves failures, the mutation has to reject
+			if (error) {
+				throw toApiError(error.status, error);
+			}
+
+			return data;
+		},
 		onSuccess: () => {
 			router.push("/");
 			toast.success("Sign up successful");
@@ -2,11 +2,12 @@ import { useQuery } from "@tanstack/react-query";
 
 import { healthKey } from "@/features/consts";
 import { client } from "@/lib/client";
+import { toResult, unwrapResult } from "@/lib/result";
 
 function useHealthCheck() {
 	return useQuery({
 		queryKey: healthKey.all,
-		queryFn: async () => await client.health.get(),
+		queryFn: async () => unwrapResult(toResult(await client.health.get())),
 		refetchInterval: 30_000, // Refetch every 30 seconds
 		refetchIntervalInBackground: true,
 	});
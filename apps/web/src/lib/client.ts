@@ -1,6 +1,7 @@
 import { treaty } from "@elysiajs/eden";
 import type { App } from "@workspace/server";
 
+import { createTraceparent } from "./tracing";
 import { env } from "../env";
 
 const isServer = typeof window === "undefined";
@@ -18,8 +19,12 @@ const serverUrl = new URL(env.NEXT_PUBLIC_SERVER_URL);
 const serverHost = `${serverUrl.hostname}${serverUrl.port ? `:${serverUrl.port}` : ""}`;
 
 export const client = treaty<App>(serverHost, {
-	headers: {
-		"Content-Type": "application/json",
-		Authorization: `Bearer ${getToken()}`,
-	},
+	headers: [
+		{
+			"Content-Type": "application/json",
+			Authorization: `Bearer ${getToken()}`,
+		},
+		// A fresh trace per call, continued by the server's request span
+		() => ({ traceparent: createTraceparent() }),
+	],
 });
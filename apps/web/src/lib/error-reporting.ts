@@ -0,0 +1,25 @@
+import { client } from "./client";
+
+// Limits of the server's ingest route
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_STACK_LENGTH = 20_000;
+
+/**
+ * Send a client crash to the server's error reporting pipeline. Never
+ * throws, so error boundaries can call it safely.
+ */
+export async function reportError(
+	error: Error & { digest?: string },
+): Promise<void> {
+	try {
+		await client["client-errors"].post({
+			name: error.name,
+			message: error.message.slice(0, MAX_MESSAGE_LENGTH),
+			stack: error.stack?.slice(0, MAX_STACK_LENGTH),
+			digest: error.digest,
+			url: window.location.href,
+		});
+	} catch {
+		// Nothing left to report to
+	}
+}
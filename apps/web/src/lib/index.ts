@@ -1,4 +1,7 @@
 export * from "./auth-client";
 export * from "./client";
+export * from "./error-reporting";
 export * from "./query-client";
+export * from "./result";
+export * from "./tracing";
 export * from "./utils";
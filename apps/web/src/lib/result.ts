@@ -0,0 +1,166 @@
+import {
+	type WireError,
+	type WireResult,
+	wireErr,
+	wireOk,
+} from "@workspace/shared";
+
+// Members every problem details body has, the rest are details
+const PROBLEM_MEMBERS = new Set([
+	"type",
+	"title",
+	"status",
+	"detail",
+	"instance",
+	"code",
+]);
+
+/**
+ * A failed API call. Status is typed per endpoint by eden, code comes from
+ * the server's error-code catalog.
+ */
+export class ApiError<Status = number> extends Error implements WireError {
+	readonly status: Status;
+	readonly code: string;
+	readonly details?: Record<string, unknown>;
+
+	constructor(status: Status, { code, message, details }: WireError) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.code = code;
+		this.details = details;
+	}
+}
+
+// The parts of an eden treaty response a Result is built from
+interface TreatyResponse {
+	data: unknown;
+	error: { status: unknown; value: unknown } | null;
+}
+
+// Success bodies are ApiResponse envelopes, the Result holds their data
+type ResponseData<Data> = Data extends { success: boolean; data?: infer T }
+	? T
+	: Data;
+
+// Eden types the status of endpoints without typed error responses unknown
+type ResponseError<Error> = Error extends { status: infer Status }
+	? ApiError<unknown extends Status ? number : Status>
+	: never;
+
+export type ApiResult<Response extends TreatyResponse> = WireResult<
+	ResponseData<NonNullable<Response["data"]>>,
+	ResponseError<NonNullable<Response["error"]>>
+>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+// Problem details, the legacy `{ success: false, error }` envelope, a
+// better-auth `{ code, message }` or a body the server did not shape, e.g.
+// from a proxy
+function toWireError(status: unknown, body: unknown): WireError {
+	if (!(isRecord(body) && typeof body.code === "string")) {
+		return {
+			code: "HTTP_ERROR",
+			message: `Request failed with status ${String(status)}`,
+		};
+	}
+
+	if (typeof body.title === "string") {
+		const details = Object.fromEntries(
+			Object.entries(body).filter(([key]) => !PROBLEM_MEMBERS.has(key)),
+		);
+
+		return {
+			code: body.code,
+			message: typeof body.detail === "string" ? body.detail : body.title,
+			details,
+		};
+	}
+
+	const message = typeof body.error === "string" ? body.error : body.message;
+
+	return {
+		code: body.code,
+		message: typeof message === "string" ? message : body.code,
+		details: {
+			...(typeof body.requestId === "string" && { requestId: body.requestId }),
+			...(Array.isArray(body.errors) && { errors: body.errors }),
+		},
+	};
+}
+
+/**
+ * An ApiError from an error body, for clients other than eden, e.g.
+ * `toApiError(error.status, error)` with better-auth's `{ error }`
+ */
+export function toApiError<Status>(
+	status: Status,
+	body: unknown,
+): ApiError<Status> {
+	return new ApiError(status, toWireError(status, body));
+}
+
+/**
+ * Messages of a failed validation by field, e.g. `{ email: "Invalid email
+ * address" }`, empty for other errors
+ */
+export function fieldErrors(error: unknown): Record<string, string> {
+	const errors = error instanceof ApiError ? error.details?.errors : undefined;
+
+	if (!Array.isArray(errors)) {
+		return {};
+	}
+
+	const messages: Record<string, string> = {};
+
+	for (const entry of errors) {
+		if (
+			isRecord(entry) &&
+			typeof entry.field === "string" &&
+			typeof entry.message === "string"
+		) {
+			// The first issue of a field is the one to fix first
+			messages[entry.field] ??= entry.message;
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Turn an eden treaty response into a Result of the response's data, e.g.
+ * `toResult(await client.health.get())`
+ */
+export function toResult<Response extends TreatyResponse>(
+	response: Response,
+): ApiResult<Response> {
+	const { data, error } = response;
+
+	if (error) {
+		return wireErr(
+			toApiError(error.status, error.value),
+		) as ApiResult<Response>;
+	}
+
+	return wireOk(
+		isRecord(data) && typeof data.success === "boolean" ? data.data : data,
+	) as ApiResult<Response>;
+}
+
+/**
+ * The Ok value of a Result or its error thrown, for query functions that
+ * report failures by throwing
+ */
+export function unwrapResult<T, E extends WireError>(
+	result: WireResult<T, E>,
+): T {
+	if (!result.ok) {
+		throw result.error;
+	}
+
+	return result.value;
+}
@@ -0,0 +1,23 @@
+import { env } from "../env";
+
+const TRACE_ID_BYTES = 16;
+const SPAN_ID_BYTES = 8;
+
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+/**
+ * Create a W3C `traceparent` header value for an outgoing request, so the
+ * server continues the trace instead of starting a new one. The server
+ * follows the sampled flag, which is set for the configured share of traces.
+ */
+export function createTraceparent(
+	sampleRatio = env.NEXT_PUBLIC_TRACE_SAMPLE_RATIO,
+): string {
+	const sampled = Math.random() < sampleRatio;
+
+	return `00-${randomHex(TRACE_ID_BYTES)}-${randomHex(SPAN_ID_BYTES)}-${sampled ? "01" : "00"}`;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	ApiError,
+	fieldErrors,
+	toApiError,
+	toResult,
+	unwrapResult,
+} from "../lib/result";
+
+function failed(status: number, value: unknown) {
+	return { data: null, error: { status, value } };
+}
+
+describe("toResult", () => {
+	it("unwraps the data of a success envelope", () => {
+		expect(
+			toResult({ data: { success: true, data: { id: 1 } }, error: null }),
+		).toEqual({ ok: true, value: { id: 1 } });
+	});
+
+	it("keeps data that is not an envelope", () => {
+		expect(toResult({ data: "OK", error: null })).toEqual({
+			ok: true,
+			value: "OK",
+		});
+	});
+
+	it("reads problem details", () => {
+		const result = toResult(
+			failed(422, {
+				type: "/problems/validation-failed",
+				title: "Validation failed",
+				status: 422,
+				detail: "Check the highlighted fields",
+				instance: "/users",
+				code: "VALIDATION_FAILED",
+				requestId: "req-1",
+				errors: [{ field: "email", message: "Invalid email address" }],
+			}),
+		);
+
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.error).toBeInstanceOf(ApiError);
+		expect(!result.ok && { ...result.error }).toMatchObject({
+			status: 422,
+			code: "VALIDATION_FAILED",
+			details: {
+				requestId: "req-1",
+				errors: [{ field: "email", message: "Invalid email address" }],
+			},
+		});
+		expect(!result.ok && result.error.message).toBe(
+			"Check the highlighted fields",
+		);
+	});
+
+	it("falls back to the problem title without a detail", () => {
+		const result = toResult(
+			failed(404, {
+				type: "/problems/not-found",
+				title: "Resource not found",
+				status: 404,
+				code: "NOT_FOUND",
+			}),
+		);
+
+		expect(!result.ok && result.error.message).toBe("Resource not found");
+		expect(!result.ok && result.error.details).toEqual({});
+	});
+
+	it("reads the legacy envelope", () => {
+		const result = toResult(
+			failed(409, {
+				success: false,
+				error: "Email already in use",
+				code: "CONFLICT",
+				requestId: "req-2",
+			}),
+		);
+
+		expect(!result.ok && { ...result.error }).toMatchObject({
+			status: 409,
+			code: "CONFLICT",
+			details: { requestId: "req-2" },
+		});
+		expect(!result.ok && result.error.message).toBe("Email already in use");
+	});
+});
+
+describe("toApiError", () => {
+	it("reads better-auth errors", () => {
+		const error = toApiError(401, {
+			code: "INVALID_EMAIL_OR_PASSWORD",
+			message: "Invalid email or password",
+		});
+
+		expect(error.code).toBe("INVALID_EMAIL_OR_PASSWORD");
+		expect(error.message).toBe("Invalid email or password");
+	});
+
+	it.each([
+		["a plain text body", "Bad Gateway"],
+		["a body without a code", { message: "upstream timed out" }],
+		["no body", undefined],
+	])("names the status for %s", (_, body) => {
+		const error = toApiError(502, body);
+
+		expect(error.code).toBe("HTTP_ERROR");
+		expect(error.message).toBe("Request failed with status 502");
+	});
+});
+
+describe("fieldErrors", () => {
+	it("keeps the first message of each field", () => {
+		const error = toApiError(422, {
+			title: "Validation failed",
+			code: "VALIDATION_FAILED",
+			errors: [
+				{ field: "email", message: "Invalid email address" },
+				{ field: "email", message: "Too long" },
+				{ field: "password", message: "Too short" },
+				{ message: "no field" },
+			],
+		});
+
+		expect(fieldErrors(error)).toEqual({
+			email: "Invalid email address",
+			password: "Too short",
+		});
+	});
+
+	it("is empty for other errors", () => {
+		expect(fieldErrors(toApiError(404, { code: "NOT_FOUND" }))).toEqual({});
+		expect(fieldErrors(new Error("boom"))).toEqual({});
+	});
+});
+
+describe("unwrapResult", () => {
+	it("returns the value of an Ok and throws the error of an Err", () => {
+		const error = toApiError(500, { code: "INTERNAL_ERROR", message: "x" });
+
+		expect(unwrapResult({ ok: true, value: 1 })).toBe(1);
+		expect(() => unwrapResult({ ok: false, error })).toThrow(error);
+	});
+});
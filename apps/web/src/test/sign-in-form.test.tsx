@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { render, screen, userEvent } from "./test-utils";
+import SignInForm from "@/containers/login/components/sign-in-form";
+import { authClient } from "@/lib/auth-client";
+
+vi.mock("@/lib/auth-client", () => ({
+	authClient: { signIn: { email: vi.fn() } },
+}));
+
+vi.mock("next/navigation", () => ({
+	useRouter: () => ({ push: vi.fn() }),
+}));
+
+vi.mock("sonner", () => ({
+	toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const signInEmail = vi.mocked(authClient.signIn.email);
+
+beforeEach(() => {
+	signInEmail.mockReset();
+});
+
+describe("SignInForm", () => {
+	it("shows the server's field errors under their fields", async () => {
+		// better-auth resolves with the response body and its status
+		signInEmail.mockResolvedValue({
+			data: null,
+			error: {
+				status: 422,
+				statusText: "Unprocessable Entity",
+				type: "/problems/validation-failed",
+				title: "Validation failed",
+				code: "VALIDATION_FAILED",
+				errors: [
+					{ field: "email", message: "No account uses this email" },
+					{ field: "password", message: "Password is too common" },
+					{ field: "captcha", message: "Not on this form" },
+				],
+			},
+		} as never);
+
+		render(<SignInForm onSwitchToSignUp={() => {}} />);
+
+		await userEvent.type(screen.getByLabelText("Email"), "ada@example.com");
+		await userEvent.type(screen.getByLabelText("Password"), "password123");
+		await userEvent.click(screen.getByRole("button", { name: "Sign In" }));
+
+		expect(
+			await screen.findByText("No account uses this email"),
+		).toBeInTheDocument();
+		expect(screen.getByText("Password is too common")).toBeInTheDocument();
+		expect(screen.queryByText("Not on this form")).not.toBeInTheDocument();
+		expect(signInEmail).toHaveBeenCalledWith({
+			email: "ada@example.com",
+			password: "password123",
+		});
+	});
+});
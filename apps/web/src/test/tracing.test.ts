@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+	process.env.NEXT_PUBLIC_SERVER_URL = "http://localhost:3000";
+	process.env.NEXT_PUBLIC_TRACE_SAMPLE_RATIO = "0.25";
+});
+
+import { client } from "../lib/client";
+import { createTraceparent } from "../lib/tracing";
+
+const TRACEPARENT_PATTERN = /^00-[0-9a-f]{32}-[0-9a-f]{16}-(00|01)$/;
+
+describe("createTraceparent", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("sets the sampled flag for the configured share of traces", () => {
+		const random = vi.spyOn(Math, "random");
+
+		random.mockReturnValueOnce(0.2);
+		expect(createTraceparent()).toMatch(/-01$/);
+
+		random.mockReturnValueOnce(0.3);
+		expect(createTraceparent()).toMatch(/-00$/);
+	});
+
+	it("starts a new trace each time", () => {
+		const first = createTraceparent(1);
+		const second = createTraceparent(1);
+
+		expect(first).toMatch(TRACEPARENT_PATTERN);
+		expect(first.slice(3, 35)).not.toBe(second.slice(3, 35));
+	});
+});
+
+describe("client", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("sends a traceparent with every request", async () => {
+		const fetch = vi
+			.spyOn(globalThis, "fetch")
+			.mockImplementation(async () => Response.json({ status: "ok" }));
+
+		await client.health.get();
+		await client.health.get();
+
+		const traceparents = fetch.mock.calls.map(([, init]) =>
+			new Headers(init?.headers).get("traceparent"),
+		);
+
+		expect(traceparents).toEqual([
+			expect.stringMatching(TRACEPARENT_PATTERN),
+			expect.stringMatching(TRACEPARENT_PATTERN),
+		]);
+		expect(traceparents[0]).not.toBe(traceparents[1]);
+	});
+});
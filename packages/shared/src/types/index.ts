@@ -1,6 +1,8 @@
 // Shared types across web and server
-export type {};
-
-// Example shared types can be added here:
-// export interface User { ... }
-// export type ApiResponse<T> = { ... }
+export type {
+	ResultLike,
+	WireErr,
+	WireError,
+	WireOk,
+	WireResult,
+} from "./result";
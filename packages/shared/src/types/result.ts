@@ -0,0 +1,27 @@
+// JSON form of a Result, shared by web and server
+
+export interface WireError<Code extends string = string> {
+	// Stable machine-readable code, e.g. "NOT_FOUND"
+	code: Code;
+	message: string;
+	details?: Record<string, unknown>;
+}
+
+export interface WireOk<T> {
+	ok: true;
+	value: T;
+}
+
+export interface WireErr<E extends WireError = WireError> {
+	ok: false;
+	error: E;
+}
+
+export type WireResult<T, E extends WireError = WireError> =
+	| WireOk<T>
+	| WireErr<E>;
+
+// What encodeResult accepts, the server's Ok and Err classes included
+export type ResultLike<T, E> =
+	| { success: true; value: T }
+	| { success: false; error: E };
@@ -1,6 +1,9 @@
 // Shared utility functions across web and server
-export {};
-
-// Example shared utilities can be added here:
-// export function formatDate(date: Date): string { ... }
-// export function validateEmail(email: string): boolean { ... }
+export {
+	decodeResult,
+	encodeResult,
+	isWireError,
+	isWireResult,
+	wireErr,
+	wireOk,
+} from "./result";
@@ -0,0 +1,69 @@
+import type {
+	ResultLike,
+	WireErr,
+	WireError,
+	WireOk,
+	WireResult,
+} from "../types/result";
+
+export function wireOk<T>(value: T): WireOk<T> {
+	return { ok: true, value };
+}
+
+export function wireErr<E extends WireError>(error: E): WireErr<E> {
+	return { ok: false, error };
+}
+
+export function isWireError(value: unknown): value is WireError {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const { code, message, details } = value as Record<string, unknown>;
+
+	return (
+		typeof code === "string" &&
+		typeof message === "string" &&
+		(details === undefined || (typeof details === "object" && details !== null))
+	);
+}
+
+export function isWireResult(value: unknown): value is WireResult<unknown> {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const wire = value as Record<string, unknown>;
+
+	return wire.ok === true
+		? "value" in wire
+		: wire.ok === false && isWireError(wire.error);
+}
+
+/**
+ * The wire form of a Result, with its error encoded by encodeError
+ */
+export function encodeResult<T, E, WE extends WireError = WireError>(
+	result: ResultLike<T, E>,
+	encodeError: (error: E) => WE,
+): WireResult<T, WE> {
+	return result.success
+		? wireOk(result.value)
+		: wireErr(encodeError(result.error));
+}
+
+/**
+ * Validates a parsed JSON value as a wire Result, parsing the Ok value with
+ * parseValue (e.g. a zod schema's `parse`). Throws a TypeError when the
+ * input is not a wire Result.
+ */
+export function decodeResult<T = unknown>(
+	input: unknown,
+	parseValue: (value: unknown) => T = (value) => value as T,
+): WireResult<T> {
+	if (!isWireResult(input)) {
+		throw new TypeError("Not a wire result");
+	}
+
+	return input.ok ? wireOk(parseValue(input.value)) : input;
+}